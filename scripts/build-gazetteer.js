@@ -0,0 +1,38 @@
+// Builds src/assets/gazetteer.bin, the offline place list behind the location search. Run with
+// `npm run build:gazetteer` after updating the all-the-cities dev dependency.
+//
+// Every GeoNames place (via all-the-cities) of at least MIN_POPULATION people, most populous first so the
+// search can stop early and ties go to the bigger town.
+//
+// Format: gzip of UTF-8 text, one place per line: name, ISO 3166 country code, first-level region (state,
+// province...; empty where GeoNames has none), latitude, longitude and population, separated by tabs.
+// Coordinates are rounded to 4 decimals (about 10 m). Region names come from the GeoNames admin1 list in the
+// cities.json dev dependency, keyed by the admin code all-the-cities carries.
+//
+// Place data © GeoNames (geonames.org), CC BY 4.0.
+import { createRequire } from 'node:module';
+import { writeFileSync } from 'node:fs';
+import { gzipSync } from 'node:zlib';
+
+const require = createRequire(import.meta.url);
+const cities = require('all-the-cities');
+const regions = new Map(require('cities.json/admin1.json').map(({ code, name }) => [code, name]));
+
+const MIN_POPULATION = 15000;
+
+const lines = cities
+  .filter(({ population }) => population >= MIN_POPULATION)
+  .sort((a, b) => b.population - a.population)
+  .map(({ name, country, adminCode, population, loc }) => {
+    const [longitude, latitude] = loc.coordinates;
+    const region = regions.get(`${country}.${adminCode}`) ?? '';
+    return [name, country, region]
+      .map(text => text.replace(/[\t\n]/g, ' '))
+      .concat(latitude.toFixed(4), longitude.toFixed(4), population)
+      .join('\t');
+  });
+
+const output = new URL('../src/assets/gazetteer.bin', import.meta.url);
+const compressed = gzipSync(lines.join('\n'), { level: 9 });
+writeFileSync(output, compressed);
+console.log(`Wrote ${compressed.length} bytes for ${lines.length} places`);
@@ -0,0 +1,66 @@
+// Builds src/assets/sky-brightness.bin, the coarse artificial sky brightness grid behind the sky brightness
+// estimate. Run with `npm run build:sky-brightness` after updating the all-the-cities dev dependency.
+//
+// Each town in GeoNames (via all-the-cities) lights the sky around it following Walker's law: the zenith
+// brightening over the natural sky is k × population × distance^-2.5, distance in km. Walker's own k is 0.01;
+// GeoNames lists the districts of a conurbation as separate places, so k is cut to 0.003, which brings the
+// grid close to measured SQM readings in London, New York, Flagstaff and Exmoor. Lighting per head varies
+// between countries, so the result is only good to a Bortle class or so.
+//
+// Format: gzip of a 1440 × 720 byte grid of 0.25° cells, row by row from 90°N and 180°W. Each byte is
+// round(50 × log10(1 + ratio)), where ratio is artificial over natural zenith brightness.
+//
+// Place data © GeoNames (geonames.org), CC BY 4.0.
+import { createRequire } from 'node:module';
+import { writeFileSync } from 'node:fs';
+import { gzipSync } from 'node:zlib';
+
+const require = createRequire(import.meta.url);
+const cities = require('all-the-cities');
+
+const CELL = 0.25;
+const COLUMNS = 360 / CELL;
+const ROWS = 180 / CELL;
+const KM_PER_DEGREE = 111.2;
+// Beyond this a town's light dome is lost in the natural sky
+const MAX_DISTANCE_KM = 150;
+// Walker's law overshoots close in; the town itself is treated as lit evenly out to this distance
+const MIN_DISTANCE_KM = 5;
+const WALKER_COEFFICIENT = 0.003;
+const SCALE = 50;
+
+const ratio = new Float64Array(COLUMNS * ROWS);
+
+for (const { population, loc } of cities) {
+  const [longitude, latitude] = loc.coordinates;
+  // Bigger towns spread their light over a wider core
+  const core = Math.max(MIN_DISTANCE_KM, 0.8 * Math.sqrt(population / 10000));
+  const rowSpan = Math.ceil(MAX_DISTANCE_KM / KM_PER_DEGREE / CELL);
+  const centreRow = Math.floor((90 - latitude) / CELL);
+
+  for (let row = Math.max(0, centreRow - rowSpan); row <= Math.min(ROWS - 1, centreRow + rowSpan); row++) {
+    const cellLatitude = 90 - (row + 0.5) * CELL;
+    const kmPerLongitude = KM_PER_DEGREE * Math.max(0.01, Math.cos((cellLatitude * Math.PI) / 180));
+    const columnSpan = Math.min(COLUMNS / 2, Math.ceil(MAX_DISTANCE_KM / kmPerLongitude / CELL));
+    const centreColumn = Math.floor((longitude + 180) / CELL);
+
+    for (let offset = -columnSpan; offset <= columnSpan; offset++) {
+      const column = (((centreColumn + offset) % COLUMNS) + COLUMNS) % COLUMNS;
+      const cellLongitude = -180 + (column + 0.5) * CELL;
+      const dLongitude = ((cellLongitude - longitude + 540) % 360) - 180;
+      const distance = Math.hypot((cellLatitude - latitude) * KM_PER_DEGREE, dLongitude * kmPerLongitude);
+      if (distance > MAX_DISTANCE_KM) continue;
+      ratio[row * COLUMNS + column] += WALKER_COEFFICIENT * population * Math.max(distance, core) ** -2.5;
+    }
+  }
+}
+
+const grid = new Uint8Array(COLUMNS * ROWS);
+for (let i = 0; i < grid.length; i++) {
+  grid[i] = Math.min(255, Math.round(SCALE * Math.log10(1 + ratio[i])));
+}
+
+const output = new URL('../src/assets/sky-brightness.bin', import.meta.url);
+const compressed = gzipSync(grid, { level: 9 });
+writeFileSync(output, compressed);
+console.log(`Wrote ${compressed.length} bytes from ${cities.length} places`);
@@ -0,0 +1,60 @@
+// Stand-in for the Open-Meteo forecast API, for working on the cloud-cover features offline or with
+// predictable skies. Start it with `npm run mock:weather` and run the app with
+// VITE_WEATHER_URL=http://localhost:8787 npm run dev
+//
+// MOCK_SKY picks the sky: clear, overcast, cirrus (thin high cloud only) or mixed (clouding over by the hour,
+// the default). PORT changes the port. The tests import createMockWeatherServer and listen on a free port.
+import { createServer } from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+const PORT = Number(process.env.PORT) || 8787;
+const SKY = process.env.MOCK_SKY || 'mixed';
+const HOUR_MS = 60 * 60 * 1000;
+
+// Cloud cover in percent for one hour: [total, low, mid, high]
+const SKIES = {
+  clear: () => [0, 0, 0, 0],
+  overcast: () => [100, 100, 80, 40],
+  cirrus: () => [70, 0, 0, 70],
+  mixed: (hour) => {
+    const low = (hour * 37) % 100;
+    return [Math.min(100, low + 10), low, 10, 20];
+  }
+};
+
+// Open-Meteo's start_hour and end_hour, as 2024-04-08T18:00 in GMT
+const parseHour = (value, fallback) => (value ? Date.parse(`${value}:00Z`) : fallback);
+
+export const createMockWeatherServer = (skyName = SKY) => createServer((request, response) => {
+  const url = new URL(request.url, `http://${request.headers.host}`);
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Content-Type', 'application/json');
+
+  const latitude = Number(url.searchParams.get('latitude'));
+  const longitude = Number(url.searchParams.get('longitude'));
+  const sky = SKIES[skyName];
+  if (url.pathname !== '/v1/forecast' || !sky || Number.isNaN(latitude) || Number.isNaN(longitude)) {
+    response.statusCode = 400;
+    response.end(JSON.stringify({ error: true, reason: `Bad request for ${url.pathname} (sky ${skyName})` }));
+    return;
+  }
+
+  const now = Math.floor(Date.now() / HOUR_MS) * HOUR_MS;
+  const start = parseHour(url.searchParams.get('start_hour'), now);
+  const end = parseHour(url.searchParams.get('end_hour'), now + 47 * HOUR_MS);
+  const hourly = { time: [], cloud_cover: [], cloud_cover_low: [], cloud_cover_mid: [], cloud_cover_high: [] };
+  for (let time = start; time <= end; time += HOUR_MS) {
+    const [total, low, mid, high] = sky(time / HOUR_MS);
+    hourly.time.push(time / 1000);
+    hourly.cloud_cover.push(total);
+    hourly.cloud_cover_low.push(low);
+    hourly.cloud_cover_mid.push(mid);
+    hourly.cloud_cover_high.push(high);
+  }
+
+  response.end(JSON.stringify({ latitude, longitude, timezone: 'GMT', hourly }));
+});
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  createMockWeatherServer().listen(PORT, () => console.log(`Mock weather (${SKY} sky) on http://localhost:${PORT}`));
+}
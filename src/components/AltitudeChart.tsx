@@ -0,0 +1,176 @@
+import { useMemo } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceArea, ReferenceDot, ReferenceLine, XAxis, YAxis } from 'recharts';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart';
+import { getAltitudeCurve, getSkyCondition, type AltitudeEventKind, type Observer, type SkyCondition } from '@/lib/moon';
+
+interface AltitudeChartProps {
+  observer: Observer;
+  date: Date;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const chartConfig = {
+  moon: { label: 'Moon', color: 'hsl(var(--primary))' },
+  sun: { label: 'Sun', color: 'hsl(var(--muted-foreground))' }
+} satisfies ChartConfig;
+
+// Band shading for daylight and each stage of twilight; night is left clear
+const SKY_SHADING: Record<SkyCondition, { label: string; opacity: number }> = {
+  day: { label: 'Day', opacity: 0.14 },
+  'civil-twilight': { label: 'Civil twilight', opacity: 0.09 },
+  'nautical-twilight': { label: 'Nautical twilight', opacity: 0.05 },
+  'astronomical-twilight': { label: 'Astronomical twilight', opacity: 0.025 },
+  night: { label: 'Night', opacity: 0 }
+};
+
+const EVENT_LABELS: Record<AltitudeEventKind, string> = {
+  rise: 'Rise',
+  transit: 'Transit',
+  set: 'Set'
+};
+
+// Noon to noon around the coming (or current) night, in the browser's time zone
+const getNightWindow = (date: Date): [Date, Date] => {
+  const start = new Date(date);
+  start.setHours(12, 0, 0, 0);
+  if (date.getHours() < 12) start.setDate(start.getDate() - 1);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return [start, end];
+};
+
+const formatHour = (time: number): string =>
+  new Date(time).toLocaleTimeString('en-US', { hour: 'numeric' });
+
+const formatTime = (time: number): string =>
+  new Date(time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+// The Moon's and Sun's altitude through the night, over shading for daylight and each stage of twilight
+const AltitudeChart = ({ observer, date }: AltitudeChartProps) => {
+  const [start, end] = getNightWindow(date);
+  const startTime = start.getTime();
+  const endTime = end.getTime();
+
+  const curve = useMemo(
+    () => getAltitudeCurve(new Date(startTime), new Date(endTime), observer),
+    [startTime, endTime, observer]
+  );
+
+  // Runs of samples sharing a twilight stage, drawn as vertical bands
+  const bands = useMemo(() => {
+    const runs: { x1: number; x2: number; condition: SkyCondition }[] = [];
+    for (const { time, sun } of curve.samples) {
+      const condition = getSkyCondition(sun);
+      const last = runs[runs.length - 1];
+      if (last && last.condition === condition) {
+        last.x2 = time;
+      } else {
+        if (last) last.x2 = time;
+        runs.push({ x1: time, x2: time, condition });
+      }
+    }
+    return runs.filter(({ condition }) => condition !== 'night');
+  }, [curve]);
+
+  const ticks = Array.from({ length: 9 }, (_, i) => startTime + i * 3 * HOUR_MS);
+  const now = date.getTime();
+
+  return (
+    <div className="w-full space-y-2">
+      <ChartContainer config={chartConfig} className="w-full aspect-[4/3]">
+        <LineChart data={curve.samples} margin={{ top: 16, right: 8, bottom: 0, left: -16 }}>
+          {bands.map(({ x1, x2, condition }) => (
+            <ReferenceArea
+              key={x1}
+              x1={x1}
+              x2={x2}
+              fill="hsl(var(--foreground))"
+              fillOpacity={SKY_SHADING[condition].opacity}
+              stroke="none"
+              ifOverflow="hidden"
+            />
+          ))}
+          <CartesianGrid vertical={false} strokeOpacity={0.3} />
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={[startTime, endTime]}
+            ticks={ticks}
+            tickFormatter={formatHour}
+            tickLine={false}
+            axisLine={false}
+          />
+          <YAxis
+            domain={[-90, 90]}
+            ticks={[-90, -60, -30, 0, 30, 60, 90]}
+            tickFormatter={(value: number) => `${value}°`}
+            tickLine={false}
+            axisLine={false}
+          />
+          <ReferenceLine y={0} stroke="hsl(var(--border))" strokeWidth={1.5} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => formatTime(payload[0]?.payload.time)}
+                formatter={(value, name) => (
+                  <div className="flex w-full justify-between gap-4">
+                    <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig].label}</span>
+                    <span className="font-mono">{(value as number).toFixed(1)}°</span>
+                  </div>
+                )}
+              />
+            }
+          />
+          <Line dataKey="sun" stroke="var(--color-sun)" strokeWidth={1.5} strokeDasharray="4 3" dot={false} isAnimationActive={false} />
+          <Line dataKey="moon" stroke="var(--color-moon)" strokeWidth={2} dot={false} isAnimationActive={false} />
+          {curve.events.map(({ kind, date: eventDate, altitude }) => (
+            <ReferenceDot
+              key={`${kind}-${eventDate.getTime()}`}
+              x={eventDate.getTime()}
+              y={altitude}
+              r={3.5}
+              fill="hsl(var(--primary))"
+              stroke="hsl(var(--background))"
+              label={{
+                value: `${EVENT_LABELS[kind]} ${formatTime(eventDate.getTime())}`,
+                position: 'top',
+                fontSize: 10,
+                fill: 'hsl(var(--muted-foreground))'
+              }}
+            />
+          ))}
+          {now >= startTime && now <= endTime && (
+            <ReferenceLine
+              x={now}
+              stroke="hsl(var(--primary))"
+              strokeDasharray="2 2"
+              label={{ value: 'Now', position: 'top', fontSize: 10, fill: 'hsl(var(--primary))' }}
+            />
+          )}
+          <ChartLegend content={<ChartLegendContent />} />
+        </LineChart>
+      </ChartContainer>
+      <div className="flex flex-wrap justify-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+        {Object.entries(SKY_SHADING).map(([condition, { label, opacity }]) => (
+          <span key={condition} className="flex items-center gap-1">
+            <span
+              className="inline-block w-3 h-3 rounded-sm border border-border"
+              style={{ backgroundColor: `hsl(var(--foreground) / ${opacity})` }}
+            />
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AltitudeChart;
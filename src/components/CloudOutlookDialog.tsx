@@ -0,0 +1,102 @@
+import { useMemo } from 'react';
+import { CloudMoon } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { findNextSunRiseSet, getMoonHorizonPosition, getSkyCondition, getSunHorizonPosition, type Observer } from '@/lib/moon';
+import { getClearSkyProbability, type CloudCover } from '@/lib/weather';
+
+interface CloudOutlookDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  observer: Observer;
+  date: Date;
+  forecast: CloudCover[];
+  source: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+// When the Sun stays down (or up) all day, show this much of the forecast instead
+const FALLBACK_HOURS = 24;
+
+const formatHour = (date: Date): string => date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+// Hour by hour through the coming night: where the Moon is and the chance the clouds leave it clear
+const CloudOutlookDialog = ({ open, onOpenChange, observer, date, forecast, source }: CloudOutlookDialogProps) => {
+  const time = date.getTime();
+  const hours = useMemo(() => {
+    if (!open) return [];
+    // From the current hour until the Sun is back up after the coming night
+    const now = new Date(time);
+    const { rise } = findNextSunRiseSet(now, observer);
+    const end = rise ? rise.getTime() : time + FALLBACK_HOURS * HOUR_MS;
+
+    return forecast
+      .filter((hour) => hour.time.getTime() + HOUR_MS > time && hour.time.getTime() < end)
+      .map((cloud) => {
+        const middle = new Date(Math.max(time, cloud.time.getTime()) + HOUR_MS / 2);
+        const moon = getMoonHorizonPosition(middle, observer);
+        const up = moon.upperLimbAltitude > moon.horizon;
+        return {
+          cloud,
+          sky: getSkyCondition(getSunHorizonPosition(middle, observer).altitude),
+          moonAltitude: moon.altitude,
+          clearChance: up ? getClearSkyProbability(cloud, moon.altitude) : null
+        };
+      });
+  }, [open, time, observer, forecast]);
+
+  const best = hours
+    .filter(({ sky, clearChance }) => sky !== 'day' && clearChance !== null)
+    .reduce<(typeof hours)[number] | null>((a, b) => (!a || b.clearChance! > a.clearChance! ? b : a), null);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card/0 backdrop-blur border-border max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CloudMoon className="w-5 h-5" />
+            Tonight's Outlook
+          </DialogTitle>
+        </DialogHeader>
+        <div className="py-6 space-y-6 text-center">
+          <div className="space-y-2">
+            <div className="text-2xl font-semibold">Best chance:</div>
+            {best ? (
+              <>
+                <div className="text-5xl font-bold font-doto text-primary">{formatHour(best.cloud.time)}</div>
+                <div className="text-muted-foreground">
+                  {Math.round(best.clearChance! * 100)}% chance of a clear view, Moon {Math.round(best.moonAltitude)}° up
+                </div>
+              </>
+            ) : (
+              <div className="text-lg text-muted-foreground">The Moon is not up after dark tonight</div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-4 gap-2 text-sm text-muted-foreground text-left max-w-sm mx-auto">
+            <span className="font-medium">Hour</span>
+            <span className="font-medium">Moon</span>
+            <span className="font-medium">Cloud</span>
+            <span className="font-medium">Clear view</span>
+            {hours.map(({ cloud, sky, moonAltitude, clearChance }) => (
+              <div key={cloud.time.getTime()} className={`contents ${sky === 'day' ? '[&>span]:opacity-50' : ''}`}>
+                <span>{formatHour(cloud.time)}</span>
+                <span>{clearChance === null ? 'Down' : `${Math.round(moonAltitude)}°`}</span>
+                <span>{Math.round(cloud.total)}%</span>
+                <span className={clearChance !== null && clearChance >= 0.6 ? 'text-visible font-semibold' : ''}>
+                  {clearChance === null ? '—' : `${Math.round(clearChance * 100)}%`}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="text-xs text-muted-foreground">
+            Cloud forecast from {source}. Low and mid-level cloud hide the Moon; thin high cloud counts for half, and
+            cloud matters more the nearer the Moon is to the horizon. Daylight hours are dimmed.
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CloudOutlookDialog;
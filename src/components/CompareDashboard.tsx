@@ -0,0 +1,245 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowDown, ArrowLeft, ArrowUp, Clock, Star, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import LocationPicker from '@/components/LocationPicker';
+import { useFavourites } from '@/hooks/use-favourites';
+import { useNow } from '@/hooks/use-now';
+import { formatCoordinates } from '@/lib/coordinates';
+import { reverseGeocode } from '@/lib/geocoding';
+import { calculateMoonData, getAzimuthDirection, type MoonReport } from '@/lib/moon';
+import {
+  createFavouriteId,
+  favouriteToLocation,
+  loadComparedLocations,
+  loadLastLocation,
+  saveComparedLocations,
+  type ComparedLocation,
+  type LastLocation
+} from '@/lib/saved-locations';
+
+type SortKey = 'name' | 'visible' | 'altitude' | 'azimuth' | 'rise' | 'set';
+
+interface Row {
+  id: string;
+  location: LastLocation;
+  saved: boolean;
+  report: MoonReport;
+}
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'name', label: 'Location' },
+  { key: 'visible', label: 'Visible' },
+  { key: 'altitude', label: 'Altitude' },
+  { key: 'azimuth', label: 'Azimuth' },
+  { key: 'rise', label: 'Next rise' },
+  { key: 'set', label: 'Next set' }
+];
+
+const formatTime = (date: Date | null): string => {
+  if (!date) return '—';
+  const options: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' };
+  // Rises and sets more than a day off (high latitudes) need their date too
+  if (date.getTime() - Date.now() > 24 * 60 * 60 * 1000) {
+    return date.toLocaleString('en-US', { month: 'short', day: 'numeric', ...options });
+  }
+  return date.toLocaleTimeString([], options);
+};
+
+// Missing rise or set times sort after every real one, whichever way the column is sorted
+const compareTimes = (a: Date | null, b: Date | null, direction: number): number => {
+  if (!a || !b) return a ? -1 : b ? 1 : 0;
+  return direction * (a.getTime() - b.getTime());
+};
+
+const compareRows = (a: Row, b: Row, key: SortKey, direction: number): number => {
+  switch (key) {
+    case 'name':
+      return direction * a.location.city.localeCompare(b.location.city);
+    case 'visible':
+      return direction * (
+        Number(b.report.visibility.visible) - Number(a.report.visibility.visible) ||
+        b.report.altitude - a.report.altitude
+      );
+    case 'altitude':
+      return direction * (b.report.altitude - a.report.altitude);
+    case 'azimuth':
+      return direction * (a.report.azimuth - b.report.azimuth);
+    case 'rise':
+      return compareTimes(a.report.rise, b.report.rise, direction);
+    case 'set':
+      return compareTimes(a.report.set, b.report.set, direction);
+  }
+};
+
+// Resolves as soon as the device has a fix, labelled with its coordinates until nameLocation finds a name
+const getCurrentPosition = (): Promise<LastLocation> =>
+  new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error('Geolocation is not supported by this browser'));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) =>
+        resolve({
+          latitude: coords.latitude,
+          longitude: coords.longitude,
+          elevation: coords.altitude ?? undefined,
+          city: formatCoordinates(coords, 2)
+        }),
+      (error) => reject(new Error(`Location error: ${error.message}`)),
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 300000 }
+    );
+  });
+
+// The Moon at every saved location plus any picked here, side by side and recomputed with the main page
+const CompareDashboard = () => {
+  const now = useNow();
+  const { favourites } = useFavourites();
+  const [picked, setPicked] = useState<ComparedLocation[]>(loadComparedLocations);
+  const [sort, setSort] = useState<{ key: SortKey; direction: number }>({ key: 'visible', direction: 1 });
+  const [error, setError] = useState<string | null>(null);
+  // Short Plus Codes resolve against the main page's location, or this device once it has been located here
+  const lastLocation = useMemo(loadLastLocation, []);
+  const [device, setDevice] = useState<LastLocation | null>(null);
+
+  useEffect(() => {
+    saveComparedLocations(picked);
+  }, [picked]);
+
+  const nameLocation = (id: string, location: LastLocation) =>
+    reverseGeocode(location).then((city) =>
+      setPicked((current) => current.map((entry) => (entry.id === id ? { ...entry, city } : entry)))
+    );
+
+  const addLocation = async (value: LastLocation | 'current') => {
+    setError(null);
+    try {
+      const location = value === 'current' ? await getCurrentPosition() : value;
+      const id = createFavouriteId();
+      setPicked((current) => [...current, { ...location, id }]);
+      if (value === 'current') {
+        setDevice(location);
+        nameLocation(id, location);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to get location');
+    }
+  };
+
+  const rows = useMemo(() => {
+    const locations = [
+      ...favourites.map((favourite) => ({ id: favourite.id, location: favouriteToLocation(favourite), saved: true })),
+      ...picked.map(({ id, ...location }) => ({ id, location, saved: false }))
+    ];
+    return locations
+      .map((entry): Row => ({ ...entry, report: calculateMoonData(now, entry.location) }))
+      .sort((a, b) => compareRows(a, b, sort.key, sort.direction));
+  }, [favourites, picked, now, sort]);
+
+  const toggleSort = (key: SortKey) =>
+    setSort((current) => ({ key, direction: current.key === key ? -current.direction : 1 }));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-space to-background p-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="text-center space-y-2">
+          <h1 className="text-2xl font-light text-muted-foreground">Can they see the moon?</h1>
+          <div className="flex items-center justify-center gap-2">
+            <Button asChild variant="ghost" size="sm" className="text-muted-foreground">
+              <Link to="/">
+                <ArrowLeft className="w-4 h-4 mr-1" />
+                Back
+              </Link>
+            </Button>
+            <LocationPicker
+              label="Add a location"
+              isCurrentLocation={false}
+              reference={lastLocation ?? device}
+              favourites={[]}
+              onSelect={addLocation}
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <Card className="bg-card/0 backdrop-blur border-border/50 overflow-hidden">
+          <CardContent className="p-4">
+            {rows.length === 0 ? (
+              <div className="py-8 text-center text-sm text-muted-foreground">
+                Save locations on the main page or add some here to compare them.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {COLUMNS.map(({ key, label }) => (
+                      <TableHead key={key}>
+                        <button
+                          type="button"
+                          onClick={() => toggleSort(key)}
+                          className="inline-flex items-center gap-1 hover:text-foreground transition-colors"
+                        >
+                          {label}
+                          {sort.key === key &&
+                            (sort.direction === 1 ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+                        </button>
+                      </TableHead>
+                    ))}
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(({ id, location, saved, report }) => (
+                    <TableRow key={id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {saved && <Star className="w-3 h-3 shrink-0 text-muted-foreground" />}
+                          <span className="font-medium">{location.city}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className={report.visibility.visible ? 'text-visible font-semibold' : 'text-muted-foreground'}>
+                        {report.visibility.label}
+                      </TableCell>
+                      <TableCell>{Math.round(report.altitude)}°</TableCell>
+                      <TableCell>
+                        {Math.round(report.azimuth)}° {getAzimuthDirection(report.azimuth)}
+                      </TableCell>
+                      <TableCell>{formatTime(report.rise)}</TableCell>
+                      <TableCell>{formatTime(report.set)}</TableCell>
+                      <TableCell className="w-8 p-2">
+                        {!saved && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label={`Remove ${location.city}`}
+                            onClick={() => setPicked((current) => current.filter((entry) => entry.id !== id))}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Last Updated */}
+        <div className="text-center text-sm text-muted-foreground">
+          <div className="flex items-center justify-center gap-2">
+            <Clock className="w-4 h-4" />
+            <span>Last updated: {now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}; times in your time zone</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareDashboard;
@@ -0,0 +1,165 @@
+import { useMemo, useState } from 'react';
+import { Moon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import WorldMap from '@/components/WorldMap';
+import {
+  getCrescentVisibilityMap,
+  ODEH_DESCRIPTIONS,
+  YALLOP_DESCRIPTIONS,
+  type CrescentVisibility,
+  type Observer
+} from '@/lib/moon';
+
+interface CrescentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  crescent: CrescentVisibility;
+  observer: Observer;
+  date: Date;
+}
+
+type Criterion = 'odeh' | 'yallop';
+
+const MAP_WIDTH = 720;
+const MAP_HEIGHT = 360;
+const CELL_STEP = 4;
+
+// Fill opacity for each zone; zones where the crescent cannot be seen at all are left unshaded
+const ZONE_OPACITY: Record<Criterion, Record<string, number>> = {
+  odeh: { A: 0.75, B: 0.5, C: 0.3 },
+  yallop: { A: 0.75, B: 0.55, C: 0.4, D: 0.25 }
+};
+
+const STATUS_MESSAGES: Record<Exclude<CrescentVisibility['status'], 'computed'>, string> = {
+  'no-sunset': 'The Sun does not set here today, so there is no evening sighting.',
+  'moon-sets-first': 'The Moon sets before the Sun this evening, so the crescent cannot be seen.',
+  'moon-stays-up': 'The Moon stays up long after sunset; it is well past the young-crescent stage.',
+  'not-young': 'The Moon is already days past new; the sighting criteria only cover the first evenings after it.'
+};
+
+const formatTime = (date: Date | null): string => {
+  if (!date) return 'N/A';
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+const CrescentDialog = ({ open, onOpenChange, crescent, observer, date }: CrescentDialogProps) => {
+  const [criterion, setCriterion] = useState<Criterion>('odeh');
+
+  // The map is the expensive part, so only build it while the dialog is open and once per evening
+  const evening = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), 12);
+  const cells = useMemo(() => {
+    if (!open) return [];
+    return getCrescentVisibilityMap(new Date(evening), { latitudeStep: CELL_STEP, longitudeStep: CELL_STEP });
+  }, [open, evening]);
+
+  const { geometry, yallop, odeh } = crescent;
+  const descriptions: Record<string, string> = criterion === 'odeh' ? ODEH_DESCRIPTIONS : YALLOP_DESCRIPTIONS;
+  const opacities = ZONE_OPACITY[criterion];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card/0 backdrop-blur border-border max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Moon className="w-5 h-5" />
+            New Crescent Sighting
+          </DialogTitle>
+        </DialogHeader>
+        <div className="py-6 space-y-6 text-center">
+          {crescent.status === 'computed' && yallop && odeh && geometry ? (
+            <div className="space-y-4">
+              <div>
+                <div className="text-2xl font-semibold mb-1">{ODEH_DESCRIPTIONS[odeh.zone]}</div>
+                <div className="text-sm text-muted-foreground">
+                  Yallop {yallop.class}: {YALLOP_DESCRIPTIONS[yallop.class]}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 text-sm text-muted-foreground text-left max-w-sm mx-auto">
+                <span className="font-medium">Sunset</span><span>{formatTime(crescent.sunset)}</span>
+                <span className="font-medium">Moonset</span><span>{formatTime(crescent.moonset)}</span>
+                <span className="font-medium">Best time</span><span>{formatTime(crescent.bestTime)}</span>
+                <span className="font-medium">Lag</span><span>{Math.round(crescent.lag ?? 0)} min</span>
+                <span className="font-medium">Moon age</span><span>{crescent.moonAge?.toFixed(1)} h</span>
+                <span className="font-medium">Arc of light</span><span>{geometry.arcOfLight.toFixed(2)}°</span>
+                <span className="font-medium">Arc of vision</span><span>{geometry.arcOfVision.toFixed(2)}°</span>
+                <span className="font-medium">Relative azimuth</span><span>{geometry.relativeAzimuth.toFixed(2)}°</span>
+                <span className="font-medium">Crescent width</span><span>{geometry.width.toFixed(2)}′</span>
+                <span className="font-medium">Yallop q</span><span>{yallop.q.toFixed(3)}</span>
+                <span className="font-medium">Odeh V</span><span>{odeh.v.toFixed(2)}</span>
+              </div>
+            </div>
+          ) : (
+            <div className="text-lg text-muted-foreground">
+              {crescent.status !== 'computed' && STATUS_MESSAGES[crescent.status]}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <div className="flex justify-center gap-2">
+              <Button
+                variant={criterion === 'odeh' ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => setCriterion('odeh')}
+              >
+                Odeh
+              </Button>
+              <Button
+                variant={criterion === 'yallop' ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => setCriterion('yallop')}
+              >
+                Yallop
+              </Button>
+            </div>
+
+            <WorldMap width={MAP_WIDTH} height={MAP_HEIGHT}>
+              {(project) => {
+                const [cellWidth] = project(-180 + CELL_STEP, 0);
+                const [, cellHeight] = project(0, 90 - CELL_STEP);
+                const [x, y] = project(observer.longitude, observer.latitude);
+                return (
+                  <>
+                    {cells.map((cell) => {
+                      const zone = criterion === 'odeh' ? cell.odeh : cell.yallop;
+                      const opacity = zone ? opacities[zone] : 0;
+                      if (!opacity) return null;
+                      const [cx, cy] = project(cell.longitude, cell.latitude);
+                      return (
+                        <rect
+                          key={`${cell.latitude},${cell.longitude}`}
+                          x={cx - cellWidth / 2}
+                          y={cy - cellHeight / 2}
+                          width={cellWidth}
+                          height={cellHeight}
+                          fill="hsl(var(--visible))"
+                          opacity={opacity}
+                        />
+                      );
+                    })}
+                    <circle cx={x} cy={y} r="4" fill="hsl(var(--primary))" stroke="hsl(var(--background))" strokeWidth="1.5" />
+                  </>
+                );
+              }}
+            </WorldMap>
+
+            <div className="flex flex-wrap justify-center gap-3 text-xs text-muted-foreground">
+              {Object.keys(descriptions).filter((zone) => opacities[zone]).map((zone) => (
+                <div key={zone} className="flex items-center gap-1">
+                  <span
+                    className="inline-block w-3 h-3 rounded-sm bg-visible"
+                    style={{ opacity: opacities[zone] }}
+                  />
+                  {zone}: {descriptions[zone]}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CrescentDialog;
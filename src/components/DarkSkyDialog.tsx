@@ -0,0 +1,172 @@
+import { useMemo, useState } from 'react';
+import { Download, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Slider } from '@/components/ui/slider';
+import {
+  DEFAULT_DARK_SKY_THRESHOLDS,
+  getDarkSkyNights,
+  type DarkSkyNight,
+  type DarkSkyThresholds,
+  type Observer
+} from '@/lib/moon';
+
+interface DarkSkyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  observer: Observer;
+  date: Date;
+}
+
+const NIGHT_OPTIONS = [7, 14, 30];
+const HOUR_MS = 60 * 60 * 1000;
+
+const formatTime = (date: Date): string => date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+const formatNight = (date: Date): string =>
+  date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+const formatRange = ({ start, end }: { start: Date; end: Date }): string => `${formatTime(start)} – ${formatTime(end)}`;
+
+// One row per window (or per night without one), times in UTC so the file is unambiguous
+const toCsv = (nights: DarkSkyNight[]): string => {
+  const header = 'night,window_start_utc,window_end_utc,hours,moon_illumination,core_start_utc,core_end_utc,core_max_altitude';
+  const rows = nights.flatMap((night) => {
+    const day = night.start.toISOString().slice(0, 10);
+    const illumination = night.moonIllumination.toFixed(2);
+    if (night.windows.length === 0) return [`${day},,,0,${illumination},,,`];
+    return night.windows.map(({ start, end, core }) =>
+      [
+        day,
+        start.toISOString(),
+        end.toISOString(),
+        ((end.getTime() - start.getTime()) / HOUR_MS).toFixed(2),
+        illumination,
+        core ? core.start.toISOString() : '',
+        core ? core.end.toISOString() : '',
+        core ? core.maxAltitude.toFixed(0) : ''
+      ].join(',')
+    );
+  });
+  return [header, ...rows].join('\n');
+};
+
+const downloadCsv = (nights: DarkSkyNight[]) => {
+  const url = URL.createObjectURL(new Blob([toCsv(nights)], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `dark-sky-${nights[0].start.toISOString().slice(0, 10)}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const DarkSkyDialog = ({ open, onOpenChange, observer, date }: DarkSkyDialogProps) => {
+  const [nightCount, setNightCount] = useState(NIGHT_OPTIONS[0]);
+  // Slider positions follow the drag; the planner only reruns once a slider is let go
+  const [draft, setDraft] = useState<DarkSkyThresholds>(DEFAULT_DARK_SKY_THRESHOLDS);
+  const [thresholds, setThresholds] = useState<DarkSkyThresholds>(DEFAULT_DARK_SKY_THRESHOLDS);
+
+  // The nights only shift at solar noon, so hourly is plenty
+  const hour = Math.floor(date.getTime() / HOUR_MS);
+  const nights = useMemo(() => {
+    if (!open) return [];
+    return getDarkSkyNights(new Date(hour * HOUR_MS), observer, nightCount, thresholds);
+  }, [open, hour, observer, nightCount, thresholds]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card/0 backdrop-blur border-border max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="w-5 h-5" />
+            Dark Sky Planner
+          </DialogTitle>
+        </DialogHeader>
+        <div className="py-6 space-y-6 text-center">
+          <div className="text-sm text-muted-foreground">
+            Astronomical darkness (Sun below −18°) with the Moon out of the way, and when the Milky Way's core is
+            more than 10° up.
+          </div>
+
+          <div className="space-y-4 max-w-sm mx-auto text-left">
+            <div className="flex justify-center gap-2">
+              {NIGHT_OPTIONS.map((count) => (
+                <Button
+                  key={count}
+                  variant={nightCount === count ? 'secondary' : 'outline'}
+                  size="sm"
+                  onClick={() => setNightCount(count)}
+                >
+                  {count} nights
+                </Button>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>Moon no higher than</span>
+                <span>{draft.maxMoonAltitude === 0 ? 'the horizon' : `${draft.maxMoonAltitude}°`}</span>
+              </div>
+              <Slider
+                value={[draft.maxMoonAltitude]}
+                max={30}
+                step={1}
+                onValueChange={([value]) => setDraft({ ...draft, maxMoonAltitude: value })}
+                onValueCommit={([value]) => setThresholds({ ...thresholds, maxMoonAltitude: value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>Ignore a Moon lit up to</span>
+                <span>{Math.round(draft.maxIllumination * 100)}%</span>
+              </div>
+              <Slider
+                value={[draft.maxIllumination * 100]}
+                max={50}
+                step={1}
+                onValueChange={([value]) => setDraft({ ...draft, maxIllumination: value / 100 })}
+                onValueCommit={([value]) => setThresholds({ ...thresholds, maxIllumination: value / 100 })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-[auto_auto_1fr] gap-x-3 gap-y-2 text-sm text-muted-foreground text-left">
+            <span className="font-medium">Night</span>
+            <span className="font-medium">Moon</span>
+            <span className="font-medium">Dark, Moon-free</span>
+            {nights.map((night) => (
+              <div key={night.start.getTime()} className="contents">
+                <span className="font-medium">{formatNight(night.start)}</span>
+                <span>{Math.round(night.moonIllumination * 100)}%</span>
+                <span>
+                  {night.darkness.length === 0 ? (
+                    'No astronomical darkness'
+                  ) : night.windows.length === 0 ? (
+                    'None'
+                  ) : (
+                    night.windows.map((window) => (
+                      <span key={window.start.getTime()} className="block">
+                        <span className={night.hours >= 4 ? 'text-visible font-semibold' : ''}>{formatRange(window)}</span>
+                        <span className="block text-xs">
+                          {window.core
+                            ? `Core ${formatRange(window.core)}, up to ${Math.round(window.core.maxAltitude)}°`
+                            : 'Core not up'}
+                        </span>
+                      </span>
+                    ))
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <Button variant="outline" size="sm" disabled={nights.length === 0} onClick={() => downloadCsv(nights)}>
+            <Download className="w-4 h-4 mr-1" />
+            Export CSV
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DarkSkyDialog;
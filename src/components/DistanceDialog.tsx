@@ -0,0 +1,139 @@
+import { useMemo, useState } from 'react';
+import { Orbit } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  classifySyzygy,
+  findNextApsis,
+  getAngularDiameter,
+  getUpcomingPhaseEvents,
+  type MoonReport,
+  type MoonSizeExtremes,
+  type SupermoonDefinition
+} from '@/lib/moon';
+
+interface DistanceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  moonData: MoonReport;
+  extremes: MoonSizeExtremes;
+}
+
+const DEFINITION_LABELS: Record<SupermoonDefinition, string> = {
+  nolle: 'Nolle 90%',
+  distance: 'Distance'
+};
+
+const DEFINITION_DESCRIPTIONS: Record<SupermoonDefinition, string> = {
+  nolle: 'Within 10% of the orbit\'s perigee (or apogee) distance, after Richard Nolle.',
+  distance: 'Closer than 360,000 km for a supermoon, farther than 405,000 km for a micromoon.'
+};
+
+// Number of upcoming major phases scanned for new and full moons
+const UPCOMING_PHASES = 12;
+
+const formatDistance = (km: number): string => `${Math.round(km).toLocaleString()} km`;
+
+const formatDateTime = (date: Date): string =>
+  date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const DistanceDialog = ({ open, onOpenChange, moonData, extremes }: DistanceDialogProps) => {
+  const [definition, setDefinition] = useState<SupermoonDefinition>('nolle');
+
+  const time = moonData.date.getTime();
+  const apsides = useMemo(() => {
+    if (!open) return null;
+    const date = new Date(time);
+    return { perigee: findNextApsis(date, 'perigee'), apogee: findNextApsis(date, 'apogee') };
+  }, [open, time]);
+
+  const syzygies = useMemo(() => {
+    if (!open) return [];
+    return getUpcomingPhaseEvents(new Date(time), UPCOMING_PHASES)
+      .filter((event) => event.phase === 'New Moon' || event.phase === 'Full Moon')
+      .map((event) => classifySyzygy(event, definition));
+  }, [open, time, definition]);
+
+  // Geocentric, like the extremes; the topocentric size is shown separately
+  const diameter = getAngularDiameter(moonData.geocentricDistance);
+  const localDiameter = moonData.semiDiameter * 2 * 60;
+  const largest = getAngularDiameter(extremes.largest.distance);
+  const smallest = getAngularDiameter(extremes.smallest.distance);
+  // Where tonight's size sits between the year's smallest and largest Moon
+  const position = Math.min(1, Math.max(0, (diameter - smallest) / (largest - smallest)));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card/0 backdrop-blur border-border max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Orbit className="w-5 h-5" />
+            Distance & Size
+          </DialogTitle>
+        </DialogHeader>
+        <div className="py-6 space-y-6 text-center">
+          <div>
+            <div className="text-3xl font-semibold mb-1">{formatDistance(moonData.geocentricDistance)}</div>
+            <div className="text-sm text-muted-foreground">
+              {diameter.toFixed(1)}′ across · {formatDistance(moonData.distance)} and {localDiameter.toFixed(1)}′ from you
+            </div>
+          </div>
+
+          <div className="space-y-2 max-w-sm mx-auto">
+            <div className="relative h-2 rounded-full bg-accent">
+              <div
+                className="absolute top-1/2 w-3 h-3 -translate-x-1/2 -translate-y-1/2 rounded-full bg-primary"
+                style={{ left: `${position * 100}%` }}
+              />
+            </div>
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>Smallest {smallest.toFixed(1)}′<br />{formatDateTime(extremes.smallest.date)}</span>
+              <span className="text-right">Largest {largest.toFixed(1)}′<br />{formatDateTime(extremes.largest.date)}</span>
+            </div>
+          </div>
+
+          {apsides && (
+            <div className="grid grid-cols-3 gap-2 text-sm text-muted-foreground text-left max-w-sm mx-auto">
+              <span className="font-medium">Next perigee</span>
+              <span>{formatDateTime(apsides.perigee.date)}</span>
+              <span>{formatDistance(apsides.perigee.distance)}</span>
+              <span className="font-medium">Next apogee</span>
+              <span>{formatDateTime(apsides.apogee.date)}</span>
+              <span>{formatDistance(apsides.apogee.distance)}</span>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <div className="flex justify-center gap-2">
+              {(Object.keys(DEFINITION_LABELS) as SupermoonDefinition[]).map((key) => (
+                <Button
+                  key={key}
+                  variant={definition === key ? 'secondary' : 'outline'}
+                  size="sm"
+                  onClick={() => setDefinition(key)}
+                >
+                  {DEFINITION_LABELS[key]}
+                </Button>
+              ))}
+            </div>
+            <div className="text-xs text-muted-foreground">{DEFINITION_DESCRIPTIONS[definition]}</div>
+
+            <div className="grid grid-cols-3 gap-2 text-sm text-muted-foreground text-left max-w-sm mx-auto">
+              {syzygies.map(({ event, distance, size }) => (
+                <div key={event.date.getTime()} className="contents">
+                  <span className="font-medium">{event.phase} · {formatDateTime(event.date)}</span>
+                  <span>{formatDistance(distance)}</span>
+                  <span className={size === 'supermoon' ? 'text-visible font-semibold' : ''}>
+                    {size === 'supermoon' ? 'Supermoon' : size === 'micromoon' ? 'Micromoon' : '—'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DistanceDialog;
@@ -0,0 +1,228 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, CircleDot } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import LunarEclipseAnimation from '@/components/LunarEclipseAnimation';
+import SolarEclipseMap from '@/components/SolarEclipseMap';
+import {
+  getLunarEclipses,
+  getSolarEclipses,
+  type LunarEclipse,
+  type LunarEclipseKind,
+  type Observer,
+  type SolarEclipseKind
+} from '@/lib/moon';
+
+export type EclipseTab = 'lunar' | 'solar';
+
+interface EclipseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  observer: Observer;
+  date: Date;
+  initialTab?: EclipseTab;
+}
+
+const LUNAR_KIND_LABELS: Record<LunarEclipseKind, string> = {
+  penumbral: 'Penumbral',
+  partial: 'Partial',
+  total: 'Total'
+};
+
+const SOLAR_KIND_LABELS: Record<SolarEclipseKind, string> = {
+  partial: 'Partial',
+  annular: 'Annular',
+  total: 'Total',
+  hybrid: 'Hybrid'
+};
+
+const formatDate = (date: Date): string =>
+  date.toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' });
+
+const formatTime = (date: Date): string =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatPercent = (value: number): string => `${Math.round(value * 100)}%`;
+
+// Whether any part of the eclipse can be seen from the observer's location
+const isLocallyVisible = (eclipse: LunarEclipse): boolean =>
+  eclipse.contacts.some((contact) => contact.moonAboveHorizon);
+
+const EclipseDialog = ({ open, onOpenChange, observer, date, initialTab = 'lunar' }: EclipseDialogProps) => {
+  const [tab, setTab] = useState<EclipseTab>(initialTab);
+  const [year, setYear] = useState(date.getFullYear());
+  const [selectedLunar, setSelectedLunar] = useState(0);
+  const [selectedSolar, setSelectedSolar] = useState(0);
+
+  // Open on whichever kind of eclipse the dialog was opened for
+  useEffect(() => {
+    if (open) setTab(initialTab);
+  }, [open, initialTab]);
+
+  const lunarEclipses = useMemo(
+    () => (open ? getLunarEclipses(year, observer) : []),
+    [open, year, observer]
+  );
+  const solarEclipses = useMemo(
+    () => (open ? getSolarEclipses(year, observer) : []),
+    [open, year, observer]
+  );
+  const lunar = lunarEclipses[selectedLunar] ?? null;
+  const solar = solarEclipses[selectedSolar] ?? null;
+  const local = solar?.local;
+
+  const changeYear = (delta: number) => {
+    setYear(year + delta);
+    setSelectedLunar(0);
+    setSelectedSolar(0);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card/0 backdrop-blur border-border max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CircleDot className="w-5 h-5" />
+            Eclipses
+          </DialogTitle>
+        </DialogHeader>
+        <div className="py-6 space-y-6 text-center">
+          <div className="flex items-center justify-center gap-4">
+            <Button variant="outline" size="sm" onClick={() => changeYear(-1)}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <div className="text-2xl font-semibold w-20">{year}</div>
+            <Button variant="outline" size="sm" onClick={() => changeYear(1)}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <Tabs value={tab} onValueChange={(value) => setTab(value as EclipseTab)}>
+            <TabsList>
+              <TabsTrigger value="lunar">Lunar</TabsTrigger>
+              <TabsTrigger value="solar">Solar</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="lunar" className="space-y-6 pt-4">
+              {lunarEclipses.length === 0 ? (
+                <div className="text-lg text-muted-foreground">No lunar eclipses in {year}.</div>
+              ) : (
+                <div className="flex flex-wrap justify-center gap-2">
+                  {lunarEclipses.map((e, index) => (
+                    <Button
+                      key={e.greatest.getTime()}
+                      variant={index === selectedLunar ? 'secondary' : 'outline'}
+                      size="sm"
+                      onClick={() => setSelectedLunar(index)}
+                    >
+                      {formatDate(e.greatest)} · {LUNAR_KIND_LABELS[e.kind]}
+                    </Button>
+                  ))}
+                </div>
+              )}
+
+              {lunar && (
+                <div className="space-y-4">
+                  <div>
+                    <div className="text-2xl font-semibold mb-1">{LUNAR_KIND_LABELS[lunar.kind]} Lunar Eclipse</div>
+                    <div className="text-sm text-muted-foreground">
+                      {isLocallyVisible(lunar) ? 'Visible from your location' : 'Not visible from your location'}
+                    </div>
+                  </div>
+
+                  <LunarEclipseAnimation key={lunar.greatest.getTime()} eclipse={lunar} />
+
+                  <div className="grid grid-cols-2 gap-2 text-sm text-muted-foreground text-left max-w-sm mx-auto">
+                    <span className="font-medium">Umbral magnitude</span><span>{lunar.umbralMagnitude.toFixed(3)}</span>
+                    <span className="font-medium">Penumbral magnitude</span><span>{lunar.penumbralMagnitude.toFixed(3)}</span>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-2 text-sm text-muted-foreground text-left max-w-sm mx-auto">
+                    <span className="font-medium">Contact</span>
+                    <span className="font-medium">Time</span>
+                    <span className="font-medium">Moon</span>
+                    {lunar.contacts.map((contact) => (
+                      <div key={contact.name} className="contents">
+                        <span>{contact.name}</span>
+                        <span>{formatTime(contact.date)}</span>
+                        <span className={contact.moonAboveHorizon ? 'text-visible' : 'text-hidden'}>
+                          {contact.moonAboveHorizon ? `Up ${contact.moonAltitude?.toFixed(0)}°` : 'Below horizon'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="solar" className="space-y-6 pt-4">
+              {solarEclipses.length === 0 ? (
+                <div className="text-lg text-muted-foreground">No solar eclipses in {year}.</div>
+              ) : (
+                <div className="flex flex-wrap justify-center gap-2">
+                  {solarEclipses.map((e, index) => (
+                    <Button
+                      key={e.greatest.getTime()}
+                      variant={index === selectedSolar ? 'secondary' : 'outline'}
+                      size="sm"
+                      onClick={() => setSelectedSolar(index)}
+                    >
+                      {formatDate(e.greatest)} · {SOLAR_KIND_LABELS[e.kind]}
+                    </Button>
+                  ))}
+                </div>
+              )}
+
+              {solar && (
+                <div className="space-y-4">
+                  <div>
+                    <div className="text-2xl font-semibold mb-1">{SOLAR_KIND_LABELS[solar.kind]} Solar Eclipse</div>
+                    <div className="text-sm text-muted-foreground">
+                      {!local
+                        ? 'Not visible from your location'
+                        : !local.visible
+                          ? 'The Sun is below the horizon throughout'
+                          : local.kind === 'partial'
+                            ? 'Seen as a partial eclipse from your location'
+                            : `Your location is inside the path of ${local.kind === 'total' ? 'totality' : 'annularity'}`}
+                    </div>
+                  </div>
+
+                  {local && (
+                    <>
+                      <div className="grid grid-cols-2 gap-2 text-sm text-muted-foreground text-left max-w-sm mx-auto">
+                        <span className="font-medium">Magnitude</span><span>{local.magnitude.toFixed(3)}</span>
+                        <span className="font-medium">Obscuration</span><span>{formatPercent(local.obscuration)}</span>
+                        <span className="font-medium">Sun altitude at maximum</span><span>{local.sunAltitude.toFixed(1)}°</span>
+                      </div>
+
+                      <div className="grid grid-cols-3 gap-2 text-sm text-muted-foreground text-left max-w-sm mx-auto">
+                        <span className="font-medium">Contact</span>
+                        <span className="font-medium">Time</span>
+                        <span className="font-medium">Sun</span>
+                        {local.contacts.map((contact) => (
+                          <div key={contact.name} className="contents">
+                            <span>{contact.name}</span>
+                            <span>{formatTime(contact.date)}</span>
+                            <span className={contact.sunAboveHorizon ? 'text-visible' : 'text-hidden'}>
+                              {contact.sunAboveHorizon ? `Up ${contact.sunAltitude.toFixed(0)}°` : 'Below horizon'}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </>
+                  )}
+
+                  <SolarEclipseMap eclipse={solar} observer={observer} />
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EclipseDialog;
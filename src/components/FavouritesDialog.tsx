@@ -0,0 +1,166 @@
+import { useState, type FormEvent } from 'react';
+import { ChevronDown, ChevronUp, MapPin, Star, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { formatCoordinates } from '@/lib/coordinates';
+import type { SavedLocation } from '@/lib/saved-locations';
+
+interface FavouritesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  favourites: SavedLocation[];
+  // The location on screen, offered for saving
+  current: { latitude: number; longitude: number; elevation?: number; city?: string } | null;
+  onAdd: (favourite: Omit<SavedLocation, 'id'>) => void;
+  onUpdate: (id: string, changes: Partial<Omit<SavedLocation, 'id'>>) => void;
+  onRemove: (id: string) => void;
+  onMove: (id: string, offset: number) => void;
+  onSelect: (favourite: SavedLocation) => void;
+}
+
+// Empty means unknown; anything else must be a number of metres
+const parseElevation = (text: string): number | undefined => {
+  const value = Number(text);
+  return text.trim() === '' || !Number.isFinite(value) ? undefined : value;
+};
+
+const FavouritesDialog = ({
+  open,
+  onOpenChange,
+  favourites,
+  current,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onMove,
+  onSelect
+}: FavouritesDialogProps) => {
+  const [name, setName] = useState('');
+  const [elevation, setElevation] = useState('');
+  const [horizonNote, setHorizonNote] = useState('');
+
+  const saveCurrent = (event: FormEvent) => {
+    event.preventDefault();
+    if (!current || !name.trim()) return;
+    onAdd({
+      name: name.trim(),
+      latitude: current.latitude,
+      longitude: current.longitude,
+      elevation: parseElevation(elevation) ?? current.elevation,
+      horizonNote: horizonNote.trim() || undefined
+    });
+    setName('');
+    setElevation('');
+    setHorizonNote('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card/0 backdrop-blur border-border max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Star className="w-5 h-5" />
+            Saved Locations
+          </DialogTitle>
+        </DialogHeader>
+        <div className="py-6 space-y-6">
+          {current && (
+            <form onSubmit={saveCurrent} className="space-y-2 max-w-sm mx-auto">
+              <div className="text-sm text-muted-foreground text-center">
+                Save {current.city ?? 'this location'} ({formatCoordinates(current, 3)})
+              </div>
+              <Input value={name} onChange={(event) => setName(event.target.value)} placeholder="Name, e.g. Cabin" />
+              <div className="flex gap-2">
+                <Input
+                  value={elevation}
+                  onChange={(event) => setElevation(event.target.value)}
+                  placeholder={current.elevation !== undefined ? `${Math.round(current.elevation)} m` : 'Elevation (m)'}
+                  inputMode="decimal"
+                  className="w-32"
+                />
+                <Input
+                  value={horizonNote}
+                  onChange={(event) => setHorizonNote(event.target.value)}
+                  placeholder="Horizon notes"
+                />
+              </div>
+              <div className="flex justify-center">
+                <Button type="submit" variant="outline" size="sm" disabled={!name.trim()}>
+                  <Star className="w-4 h-4 mr-1" />
+                  Save
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {favourites.length === 0 ? (
+            <div className="text-sm text-muted-foreground text-center">No saved locations yet.</div>
+          ) : (
+            <div className="space-y-3">
+              {favourites.map((favourite, index) => (
+                <div key={favourite.id} className="space-y-2 rounded-md border border-border/50 p-3">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={favourite.name}
+                      onChange={(event) => onUpdate(favourite.id, { name: event.target.value })}
+                      aria-label="Name"
+                      className="h-9"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={index === 0}
+                      onClick={() => onMove(favourite.id, -1)}
+                      aria-label="Move up"
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={index === favourites.length - 1}
+                      onClick={() => onMove(favourite.id, 1)}
+                      aria-label="Move down"
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => onRemove(favourite.id)} aria-label="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      value={favourite.elevation ?? ''}
+                      onChange={(event) => onUpdate(favourite.id, { elevation: parseElevation(event.target.value) })}
+                      placeholder="Elevation (m)"
+                      inputMode="decimal"
+                      aria-label="Elevation in metres"
+                      className="h-9 w-32"
+                    />
+                    <Input
+                      value={favourite.horizonNote ?? ''}
+                      onChange={(event) => onUpdate(favourite.id, { horizonNote: event.target.value || undefined })}
+                      placeholder="Horizon notes"
+                      aria-label="Horizon notes"
+                      className="h-9"
+                    />
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>{formatCoordinates(favourite, 4)}</span>
+                    <Button variant="outline" size="sm" onClick={() => onSelect(favourite)}>
+                      <MapPin className="w-4 h-4 mr-1" />
+                      Go
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FavouritesDialog;
@@ -0,0 +1,116 @@
+import { useMemo } from 'react';
+import { Mountain } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import TexturedMoon from '@/components/TexturedMoon';
+import {
+  findNextClairObscur,
+  LUNAR_FEATURES,
+  type FeatureInRelief,
+  type Libration,
+  type LunarFeatureKind,
+  type Observer
+} from '@/lib/moon';
+import { MOON_TEXTURE_CREDIT } from '@/lib/moon-texture';
+
+interface FeatureDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  libration: Libration;
+  features: FeatureInRelief[];
+  parallacticAngle: number;
+  observer: Observer;
+  date: Date;
+}
+
+const KIND_LABELS: Record<LunarFeatureKind, string> = {
+  crater: 'Crater',
+  mare: 'Mare',
+  mountains: 'Mountains',
+  valley: 'Valley',
+  effect: 'Clair-obscur'
+};
+
+// Only the lowest-Sun features are ringed on the Moon, to keep the labels legible
+const MAX_MARKERS = 8;
+
+const formatDateTime = (date: Date): string =>
+  date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const FeatureDialog = ({ open, onOpenChange, libration, features, parallacticAngle, observer, date }: FeatureDialogProps) => {
+  const markers = features.slice(0, MAX_MARKERS).map(({ feature }) => feature);
+
+  // Searching ahead lunation by lunation is the slow part, so only do it while the dialog is open
+  const time = date.getTime();
+  const effects = useMemo(() => {
+    if (!open) return [];
+    return LUNAR_FEATURES.filter((feature) => feature.colongitude).map((feature) => ({
+      feature,
+      event: findNextClairObscur(new Date(time), feature, observer)
+    }));
+  }, [open, time, observer]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card/0 backdrop-blur border-border max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Mountain className="w-5 h-5" />
+            On the Terminator Tonight
+          </DialogTitle>
+        </DialogHeader>
+        <div className="py-6 space-y-6 text-center">
+          <div className="flex flex-col items-center gap-2">
+            <TexturedMoon
+              libration={libration}
+              parallacticAngle={parallacticAngle}
+              markers={markers}
+              size={320}
+              className="w-72 h-72"
+            />
+            <div className="text-xs text-muted-foreground">
+              Sun's colongitude {libration.colongitude.toFixed(1)}°
+            </div>
+            <div className="text-xs text-muted-foreground">{MOON_TEXTURE_CREDIT}</div>
+          </div>
+
+          {features.length === 0 ? (
+            <div className="text-lg text-muted-foreground">No catalogued features are in low sunlight right now.</div>
+          ) : (
+            <div className="grid grid-cols-3 gap-2 text-sm text-muted-foreground text-left max-w-sm mx-auto">
+              <span className="font-medium">Feature</span>
+              <span className="font-medium">Sun height</span>
+              <span className="font-medium">Light</span>
+              {features.map(({ feature, sunElevation, side }) => (
+                <div key={feature.name} className="contents">
+                  <span>
+                    {feature.name}
+                    <span className="block text-xs">{KIND_LABELS[feature.kind]}</span>
+                  </span>
+                  <span>{sunElevation.toFixed(1)}°</span>
+                  <span className="capitalize">{side}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="font-semibold">Clair-obscur effects</div>
+            <div className="grid grid-cols-2 gap-2 text-sm text-muted-foreground text-left max-w-sm mx-auto">
+              {effects.map(({ feature, event }) => (
+                <div key={feature.name} className="contents">
+                  <span className="font-medium">{feature.name}</span>
+                  <span>{event ? `${formatDateTime(event.start)} – ${event.end.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}` : 'Not within two years'}</span>
+                </div>
+              ))}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              Next time each is on show with the Moon above 5° and the Sun below −6° at your location.
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FeatureDialog;
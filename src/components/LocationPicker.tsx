@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useState, type FormEvent } from 'react';
+import { MapPin, Navigation, Settings2, Star } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { COORDINATE_FORMAT_LABELS, formatCoordinates, parseCoordinates } from '@/lib/coordinates';
+import { foldText, formatPlace, loadGazetteer, searchPlaces, type IndexedPlace } from '@/lib/gazetteer';
+import { favouriteToLocation, type SavedLocation } from '@/lib/saved-locations';
+
+interface PickedLocation {
+  latitude: number;
+  longitude: number;
+  city: string;
+  elevation?: number;
+  note?: string;
+}
+
+interface LocationPickerProps {
+  label: string;
+  isCurrentLocation: boolean;
+  // Where we are now, for short Plus Codes
+  reference: { latitude: number; longitude: number } | null;
+  favourites: SavedLocation[];
+  onSelect: (location: PickedLocation | 'current') => void;
+  // Offers the saved locations dialog when given
+  onManageFavourites?: () => void;
+}
+
+// Grid codes are kept as typed, since that is how their users refer to a place
+const toPickedLocation = (input: string, reference: LocationPickerProps['reference']): PickedLocation => {
+  const point = parseCoordinates(input, reference ?? undefined);
+  const typed = point.format === 'decimal' || point.format === 'dms' ? null : input.trim();
+  return {
+    latitude: point.latitude,
+    longitude: point.longitude,
+    city: typed ? `${typed} (${formatCoordinates(point, 2)})` : formatCoordinates(point)
+  };
+};
+
+// Searches the offline gazetteer, which is only fetched the first time the picker opens, or takes typed coordinates
+const LocationPicker = ({
+  label,
+  isCurrentLocation,
+  reference,
+  favourites,
+  onSelect,
+  onManageFavourites
+}: LocationPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [coordinates, setCoordinates] = useState('');
+  const [coordinateError, setCoordinateError] = useState<string | null>(null);
+  const [places, setPlaces] = useState<IndexedPlace[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || places) return;
+    let cancelled = false;
+    loadGazetteer()
+      .then((data) => {
+        if (!cancelled) setPlaces(data);
+      })
+      .catch((error) => {
+        console.error('Failed to load place list:', error);
+        if (!cancelled) setLoadError('Place list unavailable');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, places]);
+
+  const results = useMemo(() => (places ? searchPlaces(places, query) : []), [places, query]);
+  const matchingFavourites = useMemo(() => {
+    const folded = foldText(query);
+    return folded ? favourites.filter((favourite) => foldText(favourite.name).includes(folded)) : favourites;
+  }, [favourites, query]);
+
+  // Recognised format while typing; errors wait until the entry is submitted
+  const preview = useMemo(() => {
+    try {
+      const point = parseCoordinates(coordinates, reference ?? undefined);
+      return `${COORDINATE_FORMAT_LABELS[point.format]}: ${formatCoordinates(point)}`;
+    } catch {
+      return null;
+    }
+  }, [coordinates, reference]);
+
+  const select = (location: PickedLocation | 'current') => {
+    setOpen(false);
+    setQuery('');
+    setCoordinates('');
+    setCoordinateError(null);
+    onSelect(location);
+  };
+
+  const submitCoordinates = (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      select(toPickedLocation(coordinates, reference));
+    } catch (error) {
+      setCoordinateError(error instanceof Error ? error.message : 'Could not read those coordinates');
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          role="combobox"
+          aria-expanded={open}
+          className="gap-2 text-sm font-normal text-muted-foreground hover:bg-accent/50"
+        >
+          {isCurrentLocation ? <Navigation className="w-4 h-4" /> : <MapPin className="w-4 h-4" />}
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0">
+        {/* Ranking happens in searchPlaces, so cmdk's own filter is off */}
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Search towns and cities..." value={query} onValueChange={setQuery} />
+          <CommandList>
+            <CommandEmpty>{loadError ?? (places ? 'No places found.' : 'Loading places...')}</CommandEmpty>
+            {matchingFavourites.length > 0 && (
+              <CommandGroup heading="Saved">
+                {matchingFavourites.map((favourite) => (
+                  <CommandItem
+                    key={favourite.id}
+                    value={`saved|${favourite.id}`}
+                    onSelect={() => select(favouriteToLocation(favourite))}
+                  >
+                    <Star className="w-4 h-4 mr-2 shrink-0" />
+                    <span className="truncate">{favourite.name}</span>
+                    <span className="ml-auto pl-2 text-xs text-muted-foreground whitespace-nowrap">
+                      {formatCoordinates(favourite, 1)}
+                    </span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {!query && (
+              <CommandGroup>
+                <CommandItem value="current" onSelect={() => select('current')}>
+                  <Navigation className="w-4 h-4 mr-2" />
+                  Current Location
+                </CommandItem>
+                {onManageFavourites && (
+                  <CommandItem
+                    value="manage-favourites"
+                    onSelect={() => {
+                      setOpen(false);
+                      onManageFavourites();
+                    }}
+                  >
+                    <Settings2 className="w-4 h-4 mr-2" />
+                    Saved locations…
+                  </CommandItem>
+                )}
+              </CommandGroup>
+            )}
+            {results.length > 0 && (
+              <CommandGroup heading={query ? 'Places' : 'Largest cities'}>
+                {results.map((place) => (
+                  <CommandItem
+                    key={`${place.name}|${place.latitude}|${place.longitude}`}
+                    value={`${place.name}|${place.latitude}|${place.longitude}`}
+                    onSelect={() => select({ latitude: place.latitude, longitude: place.longitude, city: formatPlace(place) })}
+                  >
+                    <MapPin className="w-4 h-4 mr-2 shrink-0" />
+                    <span className="truncate">{formatPlace(place)}</span>
+                    <span className="ml-auto pl-2 text-xs text-muted-foreground whitespace-nowrap">
+                      {formatCoordinates(place, 1)}
+                    </span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+        <form onSubmit={submitCoordinates} className="space-y-2 border-t border-border p-3">
+          <div className="flex gap-2">
+            <Input
+              value={coordinates}
+              onChange={(event) => {
+                setCoordinates(event.target.value);
+                setCoordinateError(null);
+              }}
+              placeholder="Coordinates, locator, geohash, Plus Code"
+              aria-invalid={coordinateError !== null}
+              className="h-9"
+            />
+            <Button type="submit" variant="outline" size="sm" disabled={!coordinates.trim()}>
+              Go
+            </Button>
+          </div>
+          <div className="text-xs text-muted-foreground" role={coordinateError ? 'alert' : undefined}>
+            {coordinateError ? (
+              <span className="text-foreground">{coordinateError}</span>
+            ) : (
+              preview ?? 'e.g. 40.7128, -74.0060 · 40°42\'46"N 74°0\'22"W · FN31pr · dr5regw · 87G7PX7V+4H'
+            )}
+          </div>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default LocationPicker;
@@ -0,0 +1,61 @@
+import type { TrailPoint } from '@/hooks/use-location-tracking';
+import { angularSeparation } from '@/lib/moon';
+
+interface LocationTrailProps {
+  trail: TrailPoint[];
+}
+
+const WIDTH = 240;
+const HEIGHT = 80;
+const PADDING = 8;
+const KM_PER_DEGREE = 111.2;
+
+// Where the Moon data was recomputed while tracking, oldest to newest, north up
+const LocationTrail = ({ trail }: LocationTrailProps) => {
+  if (trail.length === 0) return null;
+
+  const latitudes = trail.map((p) => p.latitude);
+  const longitudes = trail.map((p) => p.longitude);
+  const minLat = Math.min(...latitudes);
+  const maxLat = Math.max(...latitudes);
+  const minLon = Math.min(...longitudes);
+  const maxLon = Math.max(...longitudes);
+  // Keep distances true in both directions: a degree of longitude shrinks away from the equator
+  const lonScale = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+  const span = Math.max((maxLon - minLon) * lonScale, maxLat - minLat, 1e-6);
+  const scale = Math.min(WIDTH - 2 * PADDING, HEIGHT - 2 * PADDING) / span;
+  const toX = (lon: number) => WIDTH / 2 + (lon - (minLon + maxLon) / 2) * lonScale * scale;
+  const toY = (lat: number) => HEIGHT / 2 - (lat - (minLat + maxLat) / 2) * scale;
+
+  const travelled = trail
+    .slice(1)
+    .reduce(
+      (sum, p, i) => sum + angularSeparation(trail[i].longitude, trail[i].latitude, p.longitude, p.latitude) * KM_PER_DEGREE,
+      0
+    );
+  const last = trail[trail.length - 1];
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <svg width={WIDTH} height={HEIGHT} className="rounded-md border border-border/50">
+        <polyline
+          points={trail.map((p) => `${toX(p.longitude).toFixed(1)},${toY(p.latitude).toFixed(1)}`).join(' ')}
+          fill="none"
+          stroke="hsl(var(--muted-foreground))"
+          strokeWidth="1"
+          opacity="0.6"
+        />
+        {trail.map((p) => (
+          <circle key={p.time.getTime()} cx={toX(p.longitude)} cy={toY(p.latitude)} r="2" fill="hsl(var(--muted-foreground))" />
+        ))}
+        <circle cx={toX(last.longitude)} cy={toY(last.latitude)} r="4" fill="hsl(var(--primary))" />
+      </svg>
+      <div className="text-xs text-muted-foreground">
+        {trail.length} {trail.length === 1 ? 'fix' : 'fixes'} · {travelled.toFixed(1)} km · last at{' '}
+        {last.time.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+      </div>
+    </div>
+  );
+};
+
+export default LocationTrail;
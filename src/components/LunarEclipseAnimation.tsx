@@ -0,0 +1,114 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Pause, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { getShadowGeometry, type LunarEclipse } from '@/lib/moon';
+
+interface LunarEclipseAnimationProps {
+  eclipse: LunarEclipse;
+}
+
+const SIZE = 300;
+const SAMPLES = 120;
+// Seconds of animation for a whole eclipse, P1 to P4
+const PLAYBACK_SECONDS = 12;
+
+const LunarEclipseAnimation = ({ eclipse }: LunarEclipseAnimationProps) => {
+  const [progress, setProgress] = useState(0);
+  const [playing, setPlaying] = useState(true);
+
+  const start = eclipse.contacts[0].date.getTime();
+  const end = eclipse.contacts[eclipse.contacts.length - 1].date.getTime();
+
+  const samples = useMemo(() => {
+    const points = [];
+    for (let i = 0; i <= SAMPLES; i++) {
+      points.push(getShadowGeometry(new Date(start + ((end - start) * i) / SAMPLES)));
+    }
+    return points;
+  }, [start, end]);
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const delta = (now - last) / 1000 / PLAYBACK_SECONDS;
+      last = now;
+      setProgress((p) => (p + delta) % 1);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing]);
+
+  // Fit the penumbra and the Moon's track into the view
+  const extent = Math.max(
+    ...samples.map((s) => Math.hypot(s.x, s.y) + s.moonSemiDiameter),
+    samples[0].penumbralRadius
+  );
+  const scale = (SIZE / 2 - 10) / extent;
+  const center = SIZE / 2;
+  // East is to the left when facing the Moon with north up
+  const toX = (x: number) => center - x * scale;
+  const toY = (y: number) => center - y * scale;
+
+  const current = samples[Math.round(progress * SAMPLES)];
+  const currentTime = new Date(start + (end - start) * progress);
+  const track = samples.map((s) => `${toX(s.x).toFixed(1)},${toY(s.y).toFixed(1)}`).join(' ');
+
+  return (
+    <div className="flex flex-col items-center space-y-4">
+      <svg width={SIZE} height={SIZE} className="overflow-visible">
+        <circle
+          cx={center}
+          cy={center}
+          r={current.penumbralRadius * scale}
+          fill="none"
+          stroke="hsl(var(--border))"
+          strokeDasharray="4 4"
+        />
+        <polyline points={track} fill="none" stroke="hsl(var(--muted-foreground))" strokeWidth="1" opacity="0.5" />
+        <circle
+          cx={toX(current.x)}
+          cy={toY(current.y)}
+          r={current.moonSemiDiameter * scale}
+          fill="hsl(var(--lunar))"
+        />
+        {/* Shadows drawn over the Moon darken whatever part of the disc they cover */}
+        <circle cx={center} cy={center} r={current.penumbralRadius * scale} fill="hsl(var(--space))" opacity="0.3" />
+        <circle
+          cx={center}
+          cy={center}
+          r={current.umbralRadius * scale}
+          fill="hsl(var(--space))"
+          opacity="0.75"
+          stroke="hsl(var(--border))"
+        />
+        <text x={center} y={14} textAnchor="middle" className="fill-muted-foreground text-xs">N</text>
+        <text x={10} y={center + 4} textAnchor="middle" className="fill-muted-foreground text-xs">E</text>
+      </svg>
+
+      <div className="text-sm text-muted-foreground">
+        {currentTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+      </div>
+
+      <div className="flex items-center gap-3 w-full max-w-xs">
+        <Button variant="outline" size="sm" onClick={() => setPlaying(!playing)}>
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </Button>
+        <Slider
+          value={[progress * 100]}
+          max={100}
+          step={0.5}
+          onValueChange={([value]) => {
+            setPlaying(false);
+            setProgress(value / 100);
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default LunarEclipseAnimation;
@@ -0,0 +1,36 @@
+import { cn } from '@/lib/utils';
+
+interface MoonDiscProps {
+  // Illuminated fraction of the disc, 0–1
+  illumination: number;
+  // Position angle of the bright limb's midpoint, eastward from north, degrees
+  brightLimbAngle: number;
+  // Angle between celestial north and the zenith at the Moon; 0 draws the disc north-up
+  parallacticAngle?: number;
+  className?: string;
+}
+
+const RADIUS = 50;
+
+// The Moon as it appears in the observer's sky, zenith up, with the terminator drawn for the exact illuminated fraction
+const MoonDisc = ({ illumination, brightLimbAngle, parallacticAngle = 0, className }: MoonDiscProps) => {
+  const k = Math.min(1, Math.max(0, illumination));
+  // The terminator is a half-ellipse whose width shrinks to zero at quarter phase
+  const terminatorRadius = RADIUS * Math.abs(1 - 2 * k);
+  const sweep = k < 0.5 ? 0 : 1;
+  const litPath =
+    `M 0 ${-RADIUS} A ${RADIUS} ${RADIUS} 0 0 1 0 ${RADIUS} ` +
+    `A ${terminatorRadius} ${RADIUS} 0 0 ${sweep} 0 ${-RADIUS} Z`;
+
+  // The lit half is drawn facing +x; turn it so the bright limb sits at its angle from the zenith, counter-clockwise
+  const rotation = -(brightLimbAngle - parallacticAngle) - 90;
+
+  return (
+    <svg viewBox={`${-RADIUS - 1} ${-RADIUS - 1} ${2 * RADIUS + 2} ${2 * RADIUS + 2}`} className={cn('w-8 h-8', className)}>
+      <circle r={RADIUS} fill="hsl(var(--muted))" stroke="hsl(var(--border))" strokeWidth="1" />
+      {k > 0 && <path d={litPath} transform={`rotate(${rotation})`} fill="hsl(var(--lunar))" />}
+    </svg>
+  );
+};
+
+export default MoonDisc;
@@ -0,0 +1,204 @@
+import { useMemo, useState } from 'react';
+import { Download, Globe, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Slider } from '@/components/ui/slider';
+import WorldMap from '@/components/WorldMap';
+import { formatCoordinates } from '@/lib/coordinates';
+import {
+  getMoonUpCap,
+  getNightCap,
+  getSubLunarPoint,
+  getSubSolarPoint,
+  getSunDownCap,
+  type Observer
+} from '@/lib/moon';
+import { capToOutline, capToPolygons, geometryToPath, lineToPath } from '@/lib/world-map';
+
+interface MoonMapDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  observer: Observer;
+  date: Date;
+}
+
+const MAP_WIDTH = 720;
+const MAP_HEIGHT = 360;
+const MINUTE_MS = 60 * 1000;
+// The slider runs a day either side of now
+const SCRUB_RANGE_MINUTES = 24 * 60;
+const SCRUB_STEP_MINUTES = 10;
+const ASTRONOMICAL_NIGHT_DEPRESSION = 18;
+
+const formatOffset = (minutes: number): string => {
+  if (minutes === 0) return 'Now';
+  const hours = Math.floor(Math.abs(minutes) / 60);
+  const rest = Math.abs(minutes) % 60;
+  return `${minutes > 0 ? '+' : '−'}${hours}h ${String(rest).padStart(2, '0')}m`;
+};
+
+// RFC 7946 FeatureCollection: the region with the Moon up, split at the antimeridian, and the sub-lunar point
+const toGeoJson = (date: Date): string => {
+  const time = date.toISOString();
+  const { latitude, longitude } = getSubLunarPoint(date);
+  const round = ([lon, lat]: number[]) => [Number(lon.toFixed(4)), Number(lat.toFixed(4))];
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        properties: { name: 'Moon above the horizon', time },
+        geometry: {
+          type: 'MultiPolygon',
+          coordinates: capToPolygons(getMoonUpCap(date)).map((polygon) => polygon.map((ring) => ring.map(round)))
+        }
+      },
+      {
+        type: 'Feature',
+        properties: { name: 'Sub-lunar point', time },
+        geometry: { type: 'Point', coordinates: round([longitude, latitude]) }
+      }
+    ]
+  });
+};
+
+const downloadGeoJson = (date: Date) => {
+  const url = URL.createObjectURL(new Blob([toGeoJson(date)], { type: 'application/geo+json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `moon-visibility-${date.toISOString().slice(0, 16).replace(':', '')}Z.geojson`;
+  link.click();
+  // Revoking straight after click() can cancel the download before the browser has started it
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Where on Earth the Moon is up, with day and night, live or at any time a day either way
+const MoonMapDialog = ({ open, onOpenChange, observer, date }: MoonMapDialogProps) => {
+  // Minutes from now; 0 follows the live clock
+  const [offset, setOffset] = useState(0);
+  const time = new Date(date.getTime() + offset * MINUTE_MS);
+  const timeMs = time.getTime();
+
+  const layers = useMemo(() => {
+    if (!open) return null;
+    const at = new Date(timeMs);
+    const moonCap = getMoonUpCap(at);
+    return {
+      moonCap,
+      sunDown: getSunDownCap(at),
+      astronomicalNight: getNightCap(at, ASTRONOMICAL_NIGHT_DEPRESSION),
+      terminator: getNightCap(at, 0),
+      subLunar: moonCap.centre,
+      subSolar: getSubSolarPoint(at)
+    };
+  }, [open, timeMs]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card/0 backdrop-blur border-border max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Globe className="w-5 h-5" />
+            Where the Moon Is Up
+          </DialogTitle>
+        </DialogHeader>
+        {layers && (
+          <div className="py-6 space-y-6 text-center">
+            <WorldMap width={MAP_WIDTH} height={MAP_HEIGHT}>
+              {(project) => {
+                const [x, y] = project(observer.longitude, observer.latitude);
+                const [moonX, moonY] = project(layers.subLunar.longitude, layers.subLunar.latitude);
+                const [sunX, sunY] = project(layers.subSolar.longitude, layers.subSolar.latitude);
+                const fill = (cap: typeof layers.moonCap) =>
+                  geometryToPath({ type: 'MultiPolygon', coordinates: capToPolygons(cap) }, project);
+                return (
+                  <>
+                    <path d={fill(layers.sunDown)} fill="hsl(var(--space))" opacity="0.45" />
+                    <path d={fill(layers.astronomicalNight)} fill="hsl(var(--space))" opacity="0.35" />
+                    <path
+                      d={lineToPath(capToOutline(layers.terminator), project)}
+                      fill="none"
+                      stroke="hsl(var(--muted-foreground))"
+                      strokeWidth="1"
+                      strokeDasharray="3 3"
+                    />
+                    <path d={fill(layers.moonCap)} fill="hsl(var(--visible))" opacity="0.15" />
+                    <path
+                      d={lineToPath(capToOutline(layers.moonCap), project)}
+                      fill="none"
+                      stroke="hsl(var(--visible))"
+                      strokeWidth="1.5"
+                    />
+                    <circle cx={sunX} cy={sunY} r="5" fill="none" stroke="hsl(var(--primary))" strokeWidth="1.5" />
+                    <circle cx={sunX} cy={sunY} r="2" fill="hsl(var(--primary))" />
+                    <circle cx={moonX} cy={moonY} r="5" fill="hsl(var(--foreground))" stroke="hsl(var(--background))" strokeWidth="1" />
+                    <circle cx={x} cy={y} r="4" fill="hsl(var(--primary))" stroke="hsl(var(--background))" strokeWidth="1.5" />
+                  </>
+                );
+              }}
+            </WorldMap>
+
+            <div className="flex flex-wrap justify-center gap-3 text-xs text-muted-foreground">
+              <div className="flex items-center gap-1">
+                <span className="inline-block w-4 h-0.5 bg-visible" />
+                Moon above the horizon
+              </div>
+              <div className="flex items-center gap-1">
+                <span className="inline-block w-4 h-0.5 border-t border-dashed border-muted-foreground" />
+                Terminator
+              </div>
+              <div className="flex items-center gap-1">
+                <span className="inline-block w-2.5 h-2.5 rounded-full bg-foreground" />
+                Moon overhead
+              </div>
+              <div className="flex items-center gap-1">
+                <span className="inline-block w-2.5 h-2.5 rounded-full border border-primary" />
+                Sun overhead
+              </div>
+              <div className="flex items-center gap-1">
+                <span className="inline-block w-2.5 h-2.5 rounded-full bg-primary" />
+                You
+              </div>
+            </div>
+
+            <div className="space-y-1 text-sm text-muted-foreground">
+              <div>
+                <span className="font-medium">Moon overhead:</span> {formatCoordinates(layers.subLunar, 1)}
+              </div>
+              <div>
+                <span className="font-medium">Sun overhead:</span> {formatCoordinates(layers.subSolar, 1)}
+              </div>
+            </div>
+
+            <div className="space-y-2 max-w-sm mx-auto">
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>{time.toLocaleString('en-US', { weekday: 'short', hour: '2-digit', minute: '2-digit' })}</span>
+                <span>{formatOffset(offset)}</span>
+              </div>
+              <Slider
+                value={[offset]}
+                min={-SCRUB_RANGE_MINUTES}
+                max={SCRUB_RANGE_MINUTES}
+                step={SCRUB_STEP_MINUTES}
+                onValueChange={([value]) => setOffset(value)}
+              />
+            </div>
+
+            <div className="flex justify-center gap-2">
+              <Button variant="outline" size="sm" disabled={offset === 0} onClick={() => setOffset(0)}>
+                <RotateCcw className="w-4 h-4 mr-1" />
+                Live
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => downloadGeoJson(time)}>
+                <Download className="w-4 h-4 mr-1" />
+                Export GeoJSON
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MoonMapDialog;
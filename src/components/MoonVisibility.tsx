@@ -1,104 +1,125 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { MapPin, Clock, Eye, EyeOff, RefreshCw, Moon, Sunrise, Sunset, Compass, Navigation, X } from 'lucide-react';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Clock, Eye, EyeOff, RefreshCw, Moon, MoonStar, CircleDot, Mountain, Orbit, Sun, Sunrise, Sunset, Compass, Navigation, ChevronsUp, SunMedium, Sparkles, CloudMoon, LayoutGrid, Globe, LocateFixed, X } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import * as SunCalc from 'suncalc';
-import { 
-  WiMoonNew, 
-  WiMoonWaxingCrescent1,
-  WiMoonWaxingCrescent2,
-  WiMoonWaxingCrescent3,
-  WiMoonWaxingCrescent4,
-  WiMoonWaxingCrescent5,
-  WiMoonFirstQuarter, 
-  WiMoonWaxingGibbous1,
-  WiMoonWaxingGibbous2,
-  WiMoonWaxingGibbous3,
-  WiMoonWaxingGibbous4,
-  WiMoonWaxingGibbous5,
-  WiMoonWaxingGibbous6,
-  WiMoonFull, 
-  WiMoonWaningGibbous1,
-  WiMoonWaningGibbous2,
-  WiMoonWaningGibbous3,
-  WiMoonWaningGibbous4,
-  WiMoonWaningGibbous5,
-  WiMoonWaningGibbous6,
-  WiMoonThirdQuarter, 
-  WiMoonWaningCrescent1,
-  WiMoonWaningCrescent2,
-  WiMoonWaningCrescent3,
-  WiMoonWaningCrescent4,
-  WiMoonWaningCrescent5,
-  WiMoonWaningCrescent6
-} from 'react-icons/wi';
-
-const MAJOR_CITIES = [
-  { name: 'Current Location', latitude: 0, longitude: 0, value: 'current' },
-  { name: 'London, UK', latitude: 51.5074, longitude: -0.1278, value: 'london' },
-  { name: 'New York, USA', latitude: 40.7128, longitude: -74.0060, value: 'newyork' },
-  { name: 'Tokyo, Japan', latitude: 35.6762, longitude: 139.6503, value: 'tokyo' },
-  { name: 'Paris, France', latitude: 48.8566, longitude: 2.3522, value: 'paris' },
-  { name: 'Sydney, Australia', latitude: -33.8688, longitude: 151.2093, value: 'sydney' },
-  { name: 'Dubai, UAE', latitude: 25.2048, longitude: 55.2708, value: 'dubai' },
-  { name: 'Singapore', latitude: 1.3521, longitude: 103.8198, value: 'singapore' },
-  { name: 'Hong Kong', latitude: 22.3193, longitude: 114.1694, value: 'hongkong' },
-  { name: 'Mumbai, India', latitude: 19.0760, longitude: 72.8777, value: 'mumbai' },
-  { name: 'São Paulo, Brazil', latitude: -23.5505, longitude: -46.6333, value: 'saopaulo' },
-  { name: 'Cairo, Egypt', latitude: 30.0444, longitude: 31.2357, value: 'cairo' },
-  { name: 'Moscow, Russia', latitude: 55.7558, longitude: 37.6173, value: 'moscow' },
-  { name: 'Los Angeles, USA', latitude: 34.0522, longitude: -118.2437, value: 'losangeles' },
-  { name: 'Berlin, Germany', latitude: 52.5200, longitude: 13.4050, value: 'berlin' },
-  { name: 'Toronto, Canada', latitude: 43.6532, longitude: -79.3832, value: 'toronto' },
-  { name: 'Mexico City, Mexico', latitude: 19.4326, longitude: -99.1332, value: 'mexicocity' },
-  { name: 'Beijing, China', latitude: 39.9042, longitude: 116.4074, value: 'beijing' },
-  { name: 'Bangkok, Thailand', latitude: 13.7563, longitude: 100.5018, value: 'bangkok' },
-  { name: 'Istanbul, Turkey', latitude: 41.0082, longitude: 28.9784, value: 'istanbul' },
-];
-
-interface MoonData {
-  isVisible: boolean;
-  altitude: number;
-  azimuth: number;
-  phase: number;
-  illumination: number;
-  rise: Date | null;
-  set: Date | null;
-}
+import AltitudeChart from '@/components/AltitudeChart';
+import CloudOutlookDialog from '@/components/CloudOutlookDialog';
+import CrescentDialog from '@/components/CrescentDialog';
+import DarkSkyDialog from '@/components/DarkSkyDialog';
+import DistanceDialog from '@/components/DistanceDialog';
+import EclipseDialog from '@/components/EclipseDialog';
+import FavouritesDialog from '@/components/FavouritesDialog';
+import FeatureDialog from '@/components/FeatureDialog';
+import LocationPicker from '@/components/LocationPicker';
+import LocationTrail from '@/components/LocationTrail';
+import MoonDisc from '@/components/MoonDisc';
+import MoonMapDialog from '@/components/MoonMapDialog';
+import SkyBrightnessOverlay from '@/components/SkyBrightnessOverlay';
+import SunDialog from '@/components/SunDialog';
+import TexturedMoon from '@/components/TexturedMoon';
+import {
+  calculateMoonData,
+  getAzimuthDirection,
+  getBortleClass,
+  getCrescentVisibility,
+  getDarkSkyNights,
+  getAngularDiameter,
+  getFeaturesInRelief,
+  getLibration,
+  getLimitingMagnitude,
+  getLunarEclipses,
+  getMoonSizeExtremes,
+  getSkyBrightness,
+  getSkyBrightnessInputs,
+  getSolarEclipses,
+  getSubLunarPoint,
+  getSunTimes,
+  getNextFullMoon,
+  getNextMajorPhase,
+  getNextNewMoon,
+  getNextPhaseDates,
+  getTimeRemaining,
+  MAJOR_PHASES,
+  ODEH_LABELS,
+  type HorizonState,
+  type MoonReport,
+  type TimeRemaining
+} from '@/lib/moon';
+import { getClearSkyProbability, getCloudAwareAnswer, getCloudCoverAt, type CloudAwareAnswer } from '@/lib/weather';
+import { useCloudCover } from '@/hooks/use-cloud-cover';
+import { useFavourites } from '@/hooks/use-favourites';
+import { useLightPollution } from '@/hooks/use-light-pollution';
+import { useLocationTracking } from '@/hooks/use-location-tracking';
+import { MOON_REFRESH_INTERVAL_MS } from '@/hooks/use-now';
+import { formatCoordinates } from '@/lib/coordinates';
+import { reverseGeocode } from '@/lib/geocoding';
+import { favouriteToLocation, loadLastLocation, saveLastLocation } from '@/lib/saved-locations';
+import { MOON_TEXTURE_CREDIT } from '@/lib/moon-texture';
+
+const ANSWER_LABELS: Record<CloudAwareAnswer, string> = {
+  yes: 'YES',
+  maybe: 'MAYBE',
+  no: 'NO'
+};
+
+const HORIZON_STATE_LABELS: Record<Exclude<HorizonState, 'rises-and-sets'>, string> = {
+  circumpolar: 'Circumpolar',
+  'never-rises': 'Not rising'
+};
+
+const HORIZON_STATE_NOTES: Record<Exclude<HorizonState, 'rises-and-sets'>, string> = {
+  circumpolar: 'The Moon is circumpolar here: it stays above the horizon around the clock.',
+  'never-rises': 'The Moon stays below the horizon around the clock here.'
+};
 
 interface LocationData {
   latitude: number;
   longitude: number;
+  // Metres above sea level, when the device reports it
+  elevation?: number;
   city?: string;
+  // Horizon notes of a saved location
+  note?: string;
 }
 
 const MoonVisibility = () => {
-  const [moonData, setMoonData] = useState<MoonData | null>(null);
-  const [location, setLocation] = useState<LocationData | null>(null);
+  const [moonData, setMoonData] = useState<MoonReport | null>(null);
+  // Reopen wherever the last visit left off; null falls back to geolocation
+  const [location, setLocation] = useState<LocationData | null>(loadLastLocation);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
-  const [isCurrentLocation, setIsCurrentLocation] = useState(true);
-  const [selectedCity, setSelectedCity] = useState('current');
-  const [openDialog, setOpenDialog] = useState<'phase' | 'position' | 'rise' | 'set' | null>(null);
+  const [isCurrentLocation, setIsCurrentLocation] = useState(location === null);
+  const [openDialog, setOpenDialog] = useState<'phase' | 'position' | 'rise' | 'set' | 'transit' | 'sun' | 'dark-sky' | 'clouds' | 'crescent' | 'eclipse' | 'solar-eclipse' | 'distance' | 'features' | 'favourites' | 'map' | null>(null);
   const [deviceHeading, setDeviceHeading] = useState<number | null>(null);
   const [orientationEnabled, setOrientationEnabled] = useState(false);
+  const [moonView, setMoonView] = useState<'textured' | 'disc'>('textured');
+  const [showSkyBrightness, setShowSkyBrightness] = useState(true);
+  const clouds = useCloudCover(location);
+  const artificialBrightness = useLightPollution(location);
+  const favourites = useFavourites();
+  const [tracking, setTracking] = useState(false);
+
+  // The place name follows the coordinates, and is dropped if the location has moved on by the time it arrives
+  const nameLocation = (latitude: number, longitude: number) =>
+    reverseGeocode({ latitude, longitude }).then((city) =>
+      setLocation((current) =>
+        current?.latitude === latitude && current.longitude === longitude ? { ...current, city } : current
+      )
+    );
+
+  // While tracking, each move past the sampling thresholds recomputes everything for the new spot
+  const tracker = useLocationTracking(tracking, ({ latitude, longitude, elevation }) => {
+    setLocation((current) => ({ latitude, longitude, elevation, city: current?.city }));
+    setMoonData(calculateMoonData(new Date(), { latitude, longitude, elevation }));
+    setLastUpdated(new Date());
+    nameLocation(latitude, longitude);
+  });
   const smoothedHeadingRef = useRef<number | null>(null);
   const cumulativeRotationRef = useRef<number>(0);
 
-  const getMoonPhaseDescription = (phase: number): string => {
-    if (phase < 0.03 || phase > 0.97) return 'New Moon';
-    if (phase < 0.22) return 'Waxing Crescent';
-    if (phase < 0.28) return 'First Quarter';
-    if (phase < 0.46) return 'Waxing Gibbous';
-    if (phase < 0.54) return 'Full Moon';
-    if (phase < 0.72) return 'Waning Gibbous';
-    if (phase < 0.78) return 'Last Quarter';
-    return 'Waning Crescent';
-  };
-
   const formatTime = (date: Date | null): string => {
     if (!date) return 'N/A';
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -108,206 +129,22 @@ const MoonVisibility = () => {
     return `${Math.round(degrees)}°`;
   };
 
-  const getAzimuthDirection = (azimuth: number): string => {
-    const directions = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
-    const index = Math.round(azimuth / 22.5) % 16;
-    return directions[index];
-  };
-
-  const getMoonIcon = (phase: number) => {
-    // New Moon (0.00)
-    if (phase < 0.03 || phase > 0.97) return WiMoonNew;
-    
-    // Waxing Crescent (0.03 - 0.22) - only 5 variants available
-    if (phase < 0.07) return WiMoonWaxingCrescent1;
-    if (phase < 0.11) return WiMoonWaxingCrescent2;
-    if (phase < 0.15) return WiMoonWaxingCrescent3;
-    if (phase < 0.19) return WiMoonWaxingCrescent4;
-    if (phase < 0.22) return WiMoonWaxingCrescent5;
-    
-    // First Quarter (0.25)
-    if (phase < 0.28) return WiMoonFirstQuarter;
-    
-    // Waxing Gibbous (0.28 - 0.46)
-    if (phase < 0.31) return WiMoonWaxingGibbous1;
-    if (phase < 0.34) return WiMoonWaxingGibbous2;
-    if (phase < 0.37) return WiMoonWaxingGibbous3;
-    if (phase < 0.40) return WiMoonWaxingGibbous4;
-    if (phase < 0.43) return WiMoonWaxingGibbous5;
-    if (phase < 0.46) return WiMoonWaxingGibbous6;
-    
-    // Full Moon (0.46 - 0.54)
-    if (phase < 0.54) return WiMoonFull;
-    
-    // Waning Gibbous (0.54 - 0.72)
-    if (phase < 0.57) return WiMoonWaningGibbous1;
-    if (phase < 0.60) return WiMoonWaningGibbous2;
-    if (phase < 0.63) return WiMoonWaningGibbous3;
-    if (phase < 0.66) return WiMoonWaningGibbous4;
-    if (phase < 0.69) return WiMoonWaningGibbous5;
-    if (phase < 0.72) return WiMoonWaningGibbous6;
-    
-    // Third Quarter (0.75)
-    if (phase < 0.78) return WiMoonThirdQuarter;
-    
-    // Waning Crescent (0.78 - 0.97)
-    if (phase < 0.81) return WiMoonWaningCrescent1;
-    if (phase < 0.84) return WiMoonWaningCrescent2;
-    if (phase < 0.88) return WiMoonWaningCrescent3;
-    if (phase < 0.91) return WiMoonWaningCrescent4;
-    if (phase < 0.94) return WiMoonWaningCrescent5;
-    return WiMoonWaningCrescent6;
-  };
-
-  const getMoonAge = (phase: number): number => {
-    const lunarCycle = 29.53; // days
-    return Math.round(phase * lunarCycle * 10) / 10;
+  const formatDateTime = (date: Date): string => {
+    return date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
   };
 
-  const getNextMajorPhase = (currentPhase: number): { name: string; date: Date } => {
-    const lunarCycle = 29.53;
-    const now = new Date();
-    
-    // Major phases: New Moon (0), First Quarter (0.25), Full Moon (0.5), Last Quarter (0.75)
-    const phases = [
-      { value: 0, name: 'New Moon' },
-      { value: 0.25, name: 'First Quarter' },
-      { value: 0.5, name: 'Full Moon' },
-      { value: 0.75, name: 'Last Quarter' },
-      { value: 1, name: 'New Moon' }
-    ];
-    
-    // Find next major phase
-    let nextPhase = phases.find(p => p.value > currentPhase) || phases[0];
-    
-    // Calculate days until next phase
-    let daysUntil;
-    if (nextPhase.value > currentPhase) {
-      daysUntil = (nextPhase.value - currentPhase) * lunarCycle;
-    } else {
-      daysUntil = (1 - currentPhase + nextPhase.value) * lunarCycle;
-    }
-    
-    const nextDate = new Date(now.getTime() + daysUntil * 24 * 60 * 60 * 1000);
-    
-    return {
-      name: nextPhase.name,
-      date: nextDate
-    };
+  // Events more than a day off (common at high latitudes) need their date as well as their time
+  const formatEventTime = (date: Date | null): string => {
+    if (date && date.getTime() - Date.now() > 24 * 60 * 60 * 1000) return formatDateTime(date);
+    return formatTime(date);
   };
 
-  const getNextFullMoon = (currentPhase: number): Date => {
-    const lunarCycle = 29.53;
-    const now = new Date();
-    const fullMoonPhase = 0.5;
-    
-    let daysUntil;
-    if (fullMoonPhase > currentPhase) {
-      daysUntil = (fullMoonPhase - currentPhase) * lunarCycle;
-    } else {
-      daysUntil = (1 - currentPhase + fullMoonPhase) * lunarCycle;
-    }
-    
-    return new Date(now.getTime() + daysUntil * 24 * 60 * 60 * 1000);
-  };
-
-  const getNextNewMoon = (currentPhase: number): Date => {
-    const lunarCycle = 29.53;
-    const now = new Date();
-    const newMoonPhase = 0;
-    
-    let daysUntil;
-    if (currentPhase < 0.03) {
-      // Very close to new moon, calculate next cycle
-      daysUntil = lunarCycle;
-    } else {
-      // Calculate days until next new moon (end of cycle)
-      daysUntil = (1 - currentPhase) * lunarCycle;
-    }
-    
-    return new Date(now.getTime() + daysUntil * 24 * 60 * 60 * 1000);
-  };
-
-  const formatDate = (date: Date): string => {
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-  };
-
-  const getTimeRemaining = (targetDate: Date | null): { hours: number; minutes: number } | null => {
-    if (!targetDate) return null;
-    const now = new Date();
-    const diffMs = targetDate.getTime() - now.getTime();
-    
-    if (diffMs < 0) return null; // Event has already passed
-    
-    const hours = Math.floor(diffMs / (1000 * 60 * 60));
-    const minutes = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
-    
-    return { hours, minutes };
-  };
-
-  const calculateMoonData = (lat: number, lng: number): MoonData => {
-    // Validate coordinates
-    if (lat < -90 || lat > 90 || lng < -180 || lng > 180) {
-      throw new Error('Invalid coordinates');
-    }
-    
-    const now = new Date();
-    const moonPosition = SunCalc.getMoonPosition(now, lat, lng);
-    const moonIllumination = SunCalc.getMoonIllumination(now);
-    const moonTimes = SunCalc.getMoonTimes(now, lat, lng);
-
-    // Find next moonrise and moonset, looking up to 7 days ahead if needed
-    let nextRise = moonTimes.rise;
-    let nextSet = moonTimes.set;
-    
-    // Search for next moonrise
-    if (!nextRise || nextRise.getTime() < now.getTime()) {
-      for (let i = 1; i <= 7; i++) {
-        const futureDate = new Date(now);
-        futureDate.setDate(futureDate.getDate() + i);
-        const futureTimes = SunCalc.getMoonTimes(futureDate, lat, lng);
-        if (futureTimes.rise && futureTimes.rise.getTime() > now.getTime()) {
-          nextRise = futureTimes.rise;
-          break;
-        }
-      }
-    }
-    
-    // Search for next moonset
-    if (!nextSet || nextSet.getTime() < now.getTime()) {
-      for (let i = 1; i <= 7; i++) {
-        const futureDate = new Date(now);
-        futureDate.setDate(futureDate.getDate() + i);
-        const futureTimes = SunCalc.getMoonTimes(futureDate, lat, lng);
-        if (futureTimes.set && futureTimes.set.getTime() > now.getTime()) {
-          nextSet = futureTimes.set;
-          break;
-        }
-      }
-    }
-
-    // Convert altitude from radians to degrees
-    const altitudeDegrees = moonPosition.altitude * (180 / Math.PI);
-    const azimuthDegrees = moonPosition.azimuth * (180 / Math.PI);
-
-    // Convert from SunCalc's south-based azimuth (0° = South) to standard north-based azimuth (0° = North)
-    // and normalize to 0-360 degrees
-    const normalizedAzimuth = (azimuthDegrees + 180) % 360;
-
-    // Moon is visible if it's above the horizon (altitude > 0)
-    const isVisible = altitudeDegrees > 0;
-
-    return {
-      isVisible,
-      altitude: altitudeDegrees,
-      azimuth: normalizedAzimuth,
-      phase: moonIllumination.phase,
-      illumination: moonIllumination.fraction,
-      rise: nextRise,
-      set: nextSet
-    };
+  const formatCountdown = ({ hours, minutes }: TimeRemaining): string => {
+    const clock = `${hours % 24}h : ${String(minutes).padStart(2, '0')}m`;
+    return hours >= 24 ? `${Math.floor(hours / 24)}d : ${clock}` : clock;
   };
 
+  // Resolves as soon as the device has a fix; the name is filled in afterwards by nameLocation
   const getCurrentLocation = (): Promise<LocationData> => {
     return new Promise((resolve, reject) => {
       if (!navigator.geolocation) {
@@ -316,8 +153,9 @@ const MoonVisibility = () => {
       }
 
       navigator.geolocation.getCurrentPosition(
-        async (position) => {
+        (position) => {
           const { latitude, longitude } = position.coords;
+          const elevation = position.coords.altitude ?? undefined;
           
           // Validate coordinates
           if (latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) {
@@ -325,20 +163,7 @@ const MoonVisibility = () => {
             return;
           }
           
-          try {
-            // Try to get city name from reverse geocoding with encoded parameters
-            const response = await fetch(
-              `https://api.bigdatacloud.net/data/reverse-geocode-client?latitude=${encodeURIComponent(latitude)}&longitude=${encodeURIComponent(longitude)}&localityLanguage=en`
-            );
-            const data = await response.json();
-            resolve({
-              latitude,
-              longitude,
-              city: data.city || data.locality || 'Unknown Location'
-            });
-          } catch {
-            resolve({ latitude, longitude });
-          }
+          resolve({ latitude, longitude, elevation });
         },
         (error) => {
           reject(new Error(`Location error: ${error.message}`));
@@ -348,8 +173,7 @@ const MoonVisibility = () => {
     });
   };
 
-  const handleCityChange = async (value: string) => {
-    setSelectedCity(value);
+  const handleCityChange = async (value: LocationData | 'current') => {
     setLoading(true);
     setError(null);
     
@@ -357,17 +181,18 @@ const MoonVisibility = () => {
       if (value === 'current') {
         const locationData = await getCurrentLocation();
         setLocation(locationData);
+        nameLocation(locationData.latitude, locationData.longitude);
         setIsCurrentLocation(true);
-        const data = calculateMoonData(locationData.latitude, locationData.longitude);
+        saveLastLocation(null);
+        const data = calculateMoonData(new Date(), locationData);
         setMoonData(data);
       } else {
-        const city = MAJOR_CITIES.find(c => c.value === value);
-        if (city) {
-          setLocation({ latitude: city.latitude, longitude: city.longitude, city: city.name });
-          setIsCurrentLocation(false);
-          const data = calculateMoonData(city.latitude, city.longitude);
-          setMoonData(data);
-        }
+        setLocation(value);
+        setIsCurrentLocation(false);
+        setTracking(false);
+        saveLastLocation({ ...value, city: value.city ?? '' });
+        const data = calculateMoonData(new Date(), value);
+        setMoonData(data);
       }
       setLastUpdated(new Date());
     } catch (err) {
@@ -383,9 +208,12 @@ const MoonVisibility = () => {
     
     try {
       const locationData = location || await getCurrentLocation();
-      if (!location) setLocation(locationData);
+      if (!location) {
+        setLocation(locationData);
+        nameLocation(locationData.latitude, locationData.longitude);
+      }
       
-      const data = calculateMoonData(locationData.latitude, locationData.longitude);
+      const data = calculateMoonData(new Date(), locationData);
       setMoonData(data);
       setLastUpdated(new Date());
     } catch (err) {
@@ -400,7 +228,7 @@ const MoonVisibility = () => {
   }, []);
 
   useEffect(() => {
-    const interval = setInterval(updateMoonData, 60000); // Update every minute
+    const interval = setInterval(updateMoonData, MOON_REFRESH_INTERVAL_MS);
     return () => clearInterval(interval);
   }, [location]);
 
@@ -483,6 +311,57 @@ const MoonVisibility = () => {
     };
   }, [orientationEnabled]);
 
+  // Tonight's young-crescent prediction for the selected location
+  const crescent = useMemo(
+    () => (moonData && location ? getCrescentVisibility(moonData.date, location) : null),
+    [moonData, location]
+  );
+
+  // Optical libration, for the textured Moon and the limbs it favours tonight
+  const libration = useMemo(() => (moonData ? getLibration(moonData.date) : null), [moonData]);
+  const featuresInRelief = useMemo(() => (libration ? getFeaturesInRelief(libration) : []), [libration]);
+
+  // Next lunar and solar eclipses, looking into the following year when this year's are over; recomputed daily
+  const today = moonData ? new Date(moonData.date).setHours(0, 0, 0, 0) : null;
+  const nextEclipse = useMemo(() => {
+    if (today === null) return null;
+    const year = new Date(today).getUTCFullYear();
+    return [...getLunarEclipses(year), ...getLunarEclipses(year + 1)]
+      .find((eclipse) => eclipse.greatest.getTime() > today) ?? null;
+  }, [today]);
+  const nextSolarEclipse = useMemo(() => {
+    if (today === null || !location) return null;
+    const year = new Date(today).getUTCFullYear();
+    return [...getSolarEclipses(year, location), ...getSolarEclipses(year + 1, location)]
+      .find((eclipse) => eclipse.greatest.getTime() > today) ?? null;
+  }, [today, location]);
+
+  // The year's closest perigee and farthest apogee, for comparing tonight's apparent size
+  const sizeYear = today === null ? null : new Date(today).getFullYear();
+  const sizeExtremes = useMemo(
+    () => (sizeYear === null ? null : getMoonSizeExtremes(new Date(sizeYear, 6, 1))),
+    [sizeYear]
+  );
+
+  // Sunrise, sunset and twilight for the solar day around now at the selected location
+  const sunTimes = useMemo(
+    () => (moonData && location ? getSunTimes(moonData.date, location) : null),
+    [moonData, location]
+  );
+
+  // Tonight's Moon-free astronomical darkness; it only changes at solar noon, so hourly is enough
+  const darkSkyHour = moonData ? Math.floor(moonData.date.getTime() / (60 * 60 * 1000)) : null;
+  const darkSkyTonight = useMemo(
+    () => (darkSkyHour === null || !location ? null : getDarkSkyNights(new Date(darkSkyHour * 60 * 60 * 1000), location, 1)[0]),
+    [darkSkyHour, location]
+  );
+
+  // Moonlight, twilight and light pollution for the sky brightness estimate
+  const skyInputs = useMemo(
+    () => (moonData && location ? getSkyBrightnessInputs(moonData.date, location, artificialBrightness ?? 0) : null),
+    [moonData, location, artificialBrightness]
+  );
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-space to-background flex items-center justify-center">
@@ -503,6 +382,16 @@ const MoonVisibility = () => {
             <Button onClick={updateMoonData} variant="outline">
               Try Again
             </Button>
+            {/* Without a position, a place can still be picked by hand */}
+            <div className="mt-4 flex justify-center">
+              <LocationPicker
+                label="Choose a location"
+                isCurrentLocation={false}
+                reference={location}
+                favourites={favourites.favourites}
+                onSelect={handleCityChange}
+              />
+            </div>
           </CardContent>
         </Card>
       </div>
@@ -511,33 +400,59 @@ const MoonVisibility = () => {
 
   if (!moonData) return null;
 
+  // Astronomy says whether the Moon is up; the cloud forecast says whether anything is in the way
+  const cloudNow = clouds.forecast ? getCloudCoverAt(clouds.forecast, moonData.date) : null;
+  const clearChance = cloudNow && moonData.visibility.visible ? getClearSkyProbability(cloudNow, moonData.altitude) : null;
+  const answer = getCloudAwareAnswer(moonData.visibility.visible, clearChance);
+  const subLunarPoint = getSubLunarPoint(moonData.date);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-space to-background p-4">
       <div className="max-w-4xl mx-auto space-y-6">
         {/* Header */}
         <div className="text-center space-y-2">
           <h1 className="text-2xl font-light text-muted-foreground">Can you see the moon?</h1>
-          {location?.city && (
+          {location && (
             <div className="flex items-center justify-center">
-              <Select value={selectedCity} onValueChange={handleCityChange}>
-                <SelectTrigger className="w-auto border-none bg-transparent hover:bg-accent/50 transition-colors">
-                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                    {isCurrentLocation ? (
-                      <Navigation className="w-4 h-4" />
-                    ) : (
-                      <MapPin className="w-4 h-4" />
-                    )}
-                    <SelectValue />
-                  </div>
-                </SelectTrigger>
-                <SelectContent>
-                  {MAJOR_CITIES.map((city) => (
-                    <SelectItem key={city.value} value={city.value}>
-                      {city.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <LocationPicker
+                label={location.city ?? formatCoordinates(location, 2)}
+                isCurrentLocation={isCurrentLocation}
+                reference={location}
+                favourites={favourites.favourites}
+                onSelect={handleCityChange}
+                onManageFavourites={() => setOpenDialog('favourites')}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-muted-foreground hover:bg-accent/50"
+                aria-label={tracking ? 'Stop following my location' : 'Follow my location'}
+                aria-pressed={tracking}
+                onClick={() => {
+                  if (!tracking) {
+                    setIsCurrentLocation(true);
+                    saveLastLocation(null);
+                  }
+                  setTracking(!tracking);
+                }}
+              >
+                <LocateFixed className={`w-4 h-4 ${tracking ? 'text-primary' : ''}`} />
+              </Button>
+              <Button asChild variant="ghost" size="icon" className="text-muted-foreground hover:bg-accent/50">
+                <Link to="/compare" aria-label="Compare locations">
+                  <LayoutGrid className="w-4 h-4" />
+                </Link>
+              </Button>
+            </div>
+          )}
+          {location?.note && <p className="text-xs text-muted-foreground">{location.note}</p>}
+          {tracking && (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                {tracker.error ??
+                  `Following your location${tracker.lowPower ? ' less often to save battery' : ''}; the Moon is recalculated as you move.`}
+              </p>
+              <LocationTrail trail={tracker.trail} />
             </div>
           )}
         </div>
@@ -547,7 +462,7 @@ const MoonVisibility = () => {
           <CardContent className="p-8 text-center">
             <div className="space-y-4">
               <div className="flex items-center justify-center gap-4">
-                {moonData.isVisible ? (
+                {answer !== 'no' ? (
                   <Eye className="w-8 h-8 text-visible" />
                 ) : (
                   <EyeOff className="w-8 h-8 text-muted-foreground" />
@@ -555,12 +470,20 @@ const MoonVisibility = () => {
               </div>
               
               <div className="space-y-2">
-                <div className={`text-9xl font-bold font-doto ${moonData.isVisible ? 'text-visible' : 'text-muted-foreground'}`}>
-                  {moonData.isVisible ? 'YES' : 'NO'}
+                <div className={`text-9xl font-bold font-doto ${answer !== 'no' ? 'text-visible' : 'text-muted-foreground'}`}>
+                  {ANSWER_LABELS[answer]}
                 </div>
                 <p className="text-xl text-muted-foreground">
-                  The moon is {moonData.isVisible ? 'above' : 'below'} the horizon
+                  {moonData.visibility.label}
                 </p>
+                <p className="text-sm text-muted-foreground max-w-md mx-auto">
+                  {moonData.visibility.reason}
+                </p>
+                {cloudNow && clearChance !== null && (
+                  <p className="text-sm text-muted-foreground max-w-md mx-auto">
+                    {Math.round(cloudNow.total)}% cloud cover: {Math.round(clearChance * 100)}% chance of a clear view of the Moon.
+                  </p>
+                )}
               </div>
 
               <div className="pt-4">
@@ -586,10 +509,15 @@ const MoonVisibility = () => {
             onClick={() => setOpenDialog('phase')}
           >
             <CardContent className="p-4 text-center space-y-2">
-              <Moon className="w-8 h-8 mx-auto text-muted-foreground" />
+              <MoonDisc
+                illumination={moonData.illumination}
+                brightLimbAngle={moonData.brightLimbAngle}
+                parallacticAngle={moonData.parallacticAngle}
+                className="w-8 h-8 mx-auto"
+              />
               <div className="space-y-1">
                 <div className="text-sm text-muted-foreground">Moon Phase</div>
-                <div className="font-semibold">{getMoonPhaseDescription(moonData.phase)}</div>
+                <div className="font-semibold">{moonData.phaseName}</div>
                 <div className="text-sm text-muted-foreground">
                   {Math.round(moonData.illumination * 100)}% illuminated
                 </div>
@@ -625,7 +553,10 @@ const MoonVisibility = () => {
               <Sunrise className="w-8 h-8 mx-auto text-muted-foreground" />
               <div className="space-y-1">
                 <div className="text-sm text-muted-foreground">Moonrise</div>
-                <div className="font-semibold">{formatTime(moonData.rise)}</div>
+                <div className="font-semibold">{formatEventTime(moonData.rise)}</div>
+                {moonData.horizonState !== 'rises-and-sets' && (
+                  <div className="text-xs text-muted-foreground">{HORIZON_STATE_LABELS[moonData.horizonState]}</div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -639,10 +570,207 @@ const MoonVisibility = () => {
               <Sunset className="w-8 h-8 mx-auto text-muted-foreground" />
               <div className="space-y-1">
                 <div className="text-sm text-muted-foreground">Moonset</div>
-                <div className="font-semibold">{formatTime(moonData.set)}</div>
+                <div className="font-semibold">{formatEventTime(moonData.set)}</div>
+                {moonData.horizonState !== 'rises-and-sets' && (
+                  <div className="text-xs text-muted-foreground">{HORIZON_STATE_LABELS[moonData.horizonState]}</div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Transit */}
+          <Card 
+            className="bg-card/20 backdrop-blur border-border/50 cursor-pointer hover:bg-accent/50 transition-colors"
+            onClick={() => setOpenDialog('transit')}
+          >
+            <CardContent className="p-4 text-center space-y-2">
+              <ChevronsUp className="w-8 h-8 mx-auto text-muted-foreground" />
+              <div className="space-y-1">
+                <div className="text-sm text-muted-foreground">Transit</div>
+                <div className="font-semibold">{formatTime(moonData.upperCulmination?.date ?? null)}</div>
+                {moonData.upperCulmination && (
+                  <div className="text-xs text-muted-foreground">
+                    {formatDegrees(moonData.upperCulmination.altitude)} high
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Sun */}
+          {sunTimes && (
+            <Card 
+              className="bg-card/20 backdrop-blur border-border/50 cursor-pointer hover:bg-accent/50 transition-colors"
+              onClick={() => setOpenDialog('sun')}
+            >
+              <CardContent className="p-4 text-center space-y-2">
+                <SunMedium className="w-8 h-8 mx-auto text-muted-foreground" />
+                <div className="space-y-1">
+                  <div className="text-sm text-muted-foreground">Sun</div>
+                  <div className="font-semibold">
+                    {sunTimes.horizonState === 'rises-and-sets'
+                      ? `${formatTime(sunTimes.sunrise)} – ${formatTime(sunTimes.sunset)}`
+                      : sunTimes.horizonState === 'circumpolar' ? 'Midnight sun' : 'Polar night'}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatDegrees(moonData.sunAltitude)} {moonData.sunAltitude >= 0 ? 'above' : 'below'} horizon
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Dark Sky */}
+          {darkSkyTonight && (
+            <Card 
+              className="bg-card/20 backdrop-blur border-border/50 cursor-pointer hover:bg-accent/50 transition-colors"
+              onClick={() => setOpenDialog('dark-sky')}
+            >
+              <CardContent className="p-4 text-center space-y-2">
+                <Sparkles className="w-8 h-8 mx-auto text-muted-foreground" />
+                <div className="space-y-1">
+                  <div className="text-sm text-muted-foreground">Dark Sky</div>
+                  <div className="font-semibold">
+                    {darkSkyTonight.windows.length > 0 ? `${darkSkyTonight.hours.toFixed(1)}h Moon-free` : 'None tonight'}
+                  </div>
+                  {darkSkyTonight.windows.length > 0 && (
+                    <div className="text-xs text-muted-foreground">
+                      From {formatTime(darkSkyTonight.windows[0].start)}
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Clouds */}
+          {clouds.source && (
+            <Card 
+              className="bg-card/20 backdrop-blur border-border/50 cursor-pointer hover:bg-accent/50 transition-colors"
+              onClick={() => clouds.forecast && setOpenDialog('clouds')}
+            >
+              <CardContent className="p-4 text-center space-y-2">
+                <CloudMoon className="w-8 h-8 mx-auto text-muted-foreground" />
+                <div className="space-y-1">
+                  <div className="text-sm text-muted-foreground">Clouds</div>
+                  <div className="font-semibold">
+                    {cloudNow ? `${Math.round(cloudNow.total)}% cover` : clouds.error ? 'Unavailable' : 'Loading…'}
+                  </div>
+                  {clouds.forecast && <div className="text-xs text-muted-foreground">Tonight's outlook</div>}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* World Map */}
+          <Card 
+            className="bg-card/20 backdrop-blur border-border/50 cursor-pointer hover:bg-accent/50 transition-colors"
+            onClick={() => setOpenDialog('map')}
+          >
+            <CardContent className="p-4 text-center space-y-2">
+              <Globe className="w-8 h-8 mx-auto text-muted-foreground" />
+              <div className="space-y-1">
+                <div className="text-sm text-muted-foreground">World Map</div>
+                <div className="font-semibold">{formatCoordinates(subLunarPoint, 1)}</div>
+                <div className="text-sm text-muted-foreground">Moon overhead</div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Distance */}
+          {sizeExtremes && (
+            <Card 
+              className="bg-card/20 backdrop-blur border-border/50 cursor-pointer hover:bg-accent/50 transition-colors"
+              onClick={() => setOpenDialog('distance')}
+            >
+              <CardContent className="p-4 text-center space-y-2">
+                <Orbit className="w-8 h-8 mx-auto text-muted-foreground" />
+                <div className="space-y-1">
+                  <div className="text-sm text-muted-foreground">Distance</div>
+                  <div className="font-semibold">{Math.round(moonData.geocentricDistance).toLocaleString()} km</div>
+                  <div className="text-sm text-muted-foreground">
+                    {Math.round((getAngularDiameter(moonData.geocentricDistance) / getAngularDiameter(sizeExtremes.largest.distance)) * 100)}% of the year's largest
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Terminator Features */}
+          <Card 
+            className="bg-card/20 backdrop-blur border-border/50 cursor-pointer hover:bg-accent/50 transition-colors"
+            onClick={() => setOpenDialog('features')}
+          >
+            <CardContent className="p-4 text-center space-y-2">
+              <Mountain className="w-8 h-8 mx-auto text-muted-foreground" />
+              <div className="space-y-1">
+                <div className="text-sm text-muted-foreground">On the Terminator</div>
+                <div className="font-semibold">{featuresInRelief[0]?.feature.name ?? 'Nothing notable'}</div>
+                <div className="text-sm text-muted-foreground">
+                  {featuresInRelief.length} {featuresInRelief.length === 1 ? 'feature' : 'features'} in relief
+                </div>
               </div>
             </CardContent>
           </Card>
+
+          {/* New Crescent */}
+          {crescent && (
+            <Card 
+              className="bg-card/20 backdrop-blur border-border/50 cursor-pointer hover:bg-accent/50 transition-colors"
+              onClick={() => setOpenDialog('crescent')}
+            >
+              <CardContent className="p-4 text-center space-y-2">
+                <MoonStar className="w-8 h-8 mx-auto text-muted-foreground" />
+                <div className="space-y-1">
+                  <div className="text-sm text-muted-foreground">New Crescent</div>
+                  <div className="font-semibold">
+                    {crescent.status === 'computed' && crescent.odeh ? ODEH_LABELS[crescent.odeh.zone] : 'Not tonight'}
+                  </div>
+                  {crescent.status === 'computed' && crescent.yallop && (
+                    <div className="text-sm text-muted-foreground">Yallop {crescent.yallop.class}</div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Lunar Eclipse */}
+          {nextEclipse && (
+            <Card 
+              className="bg-card/20 backdrop-blur border-border/50 cursor-pointer hover:bg-accent/50 transition-colors"
+              onClick={() => setOpenDialog('eclipse')}
+            >
+              <CardContent className="p-4 text-center space-y-2">
+                <CircleDot className="w-8 h-8 mx-auto text-muted-foreground" />
+                <div className="space-y-1">
+                  <div className="text-sm text-muted-foreground">Next Lunar Eclipse</div>
+                  <div className="font-semibold capitalize">{nextEclipse.kind}</div>
+                  <div className="text-sm text-muted-foreground">{formatDateTime(nextEclipse.greatest)}</div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Solar Eclipse */}
+          {nextSolarEclipse && (
+            <Card 
+              className="bg-card/20 backdrop-blur border-border/50 cursor-pointer hover:bg-accent/50 transition-colors"
+              onClick={() => setOpenDialog('solar-eclipse')}
+            >
+              <CardContent className="p-4 text-center space-y-2">
+                <Sun className="w-8 h-8 mx-auto text-muted-foreground" />
+                <div className="space-y-1">
+                  <div className="text-sm text-muted-foreground">Next Solar Eclipse</div>
+                  <div className="font-semibold">
+                    {nextSolarEclipse.local?.visible
+                      ? `${Math.round(nextSolarEclipse.local.obscuration * 100)}% covered`
+                      : 'Not seen here'}
+                  </div>
+                  <div className="text-sm text-muted-foreground">{formatDateTime(nextSolarEclipse.greatest)}</div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         {/* Detail Dialogs */}
@@ -655,18 +783,65 @@ const MoonVisibility = () => {
               </DialogTitle>
             </DialogHeader>
             <div className="py-6 space-y-6 text-center">
-              <div className="flex justify-center">
-                {moonData && (() => {
-                  const MoonIcon = getMoonIcon(moonData.phase);
-                  return <MoonIcon className="w-32 h-32 text-muted-foreground" />;
-                })()}
+              <div className="flex flex-col items-center gap-2">
+                {moonView === 'textured' && libration ? (
+                  <TexturedMoon
+                    libration={libration}
+                    parallacticAngle={moonData.parallacticAngle}
+                    className="w-48 h-48"
+                  />
+                ) : (
+                  <MoonDisc
+                    illumination={moonData.illumination}
+                    brightLimbAngle={moonData.brightLimbAngle}
+                    parallacticAngle={moonData.parallacticAngle}
+                    className="w-32 h-32"
+                  />
+                )}
+                <div className="text-xs text-muted-foreground">As it appears in your sky, zenith up</div>
+                {moonView === 'textured' && libration && (
+                  <div className="text-xs text-muted-foreground">{MOON_TEXTURE_CREDIT}</div>
+                )}
+                <div className="flex justify-center gap-2">
+                  <Button
+                    variant={moonView === 'textured' ? 'secondary' : 'outline'}
+                    size="sm"
+                    onClick={() => setMoonView('textured')}
+                  >
+                    Textured
+                  </Button>
+                  <Button
+                    variant={moonView === 'disc' ? 'secondary' : 'outline'}
+                    size="sm"
+                    onClick={() => setMoonView('disc')}
+                  >
+                    Disc
+                  </Button>
+                </div>
               </div>
+
+              {libration && (
+                <div className="grid grid-cols-2 gap-2 text-sm text-muted-foreground text-left max-w-xs mx-auto">
+                  <span className="font-medium">Libration in longitude</span>
+                  <span>
+                    {libration.longitude >= 0 ? '+' : ''}{libration.longitude.toFixed(1)}° ({libration.longitude >= 0 ? 'east' : 'west'} limb)
+                  </span>
+                  <span className="font-medium">Libration in latitude</span>
+                  <span>
+                    {libration.latitude >= 0 ? '+' : ''}{libration.latitude.toFixed(1)}° ({libration.latitude >= 0 ? 'north' : 'south'} pole)
+                  </span>
+                  <span className="font-medium">Axis position angle</span>
+                  <span>{libration.positionAngle.toFixed(1)}°</span>
+                  <span className="font-medium">Sun's colongitude</span>
+                  <span>{libration.colongitude.toFixed(1)}°</span>
+                </div>
+              )}
               
               {moonData && (
                 <div className="space-y-4">
                   <div>
                     <div className="text-2xl font-semibold mb-1">
-                      {getMoonPhaseDescription(moonData.phase)}
+                      {moonData.phaseName}
                     </div>
                   </div>
                   
@@ -678,24 +853,42 @@ const MoonVisibility = () => {
                     
                     <div>
                       <span className="font-medium">Age of Moon:</span>{' '}
-                      {getMoonAge(moonData.phase)} days
-                    </div>
-                    {/*
-                    <div>
-                      <span className="font-medium">Next {getNextMajorPhase(moonData.phase).name}:</span>{' '}
-                      {formatDate(getNextMajorPhase(moonData.phase).date)}
+                      {moonData.age} days
                     </div>
 
+                    {(() => {
+                      const nextPhase = getNextMajorPhase(moonData.date);
+                      return (
+                        <div>
+                          <span className="font-medium">Next {nextPhase.phase}:</span>{' '}
+                          {formatDateTime(nextPhase.date)}
+                        </div>
+                      );
+                    })()}
+
                     <div>
                       <span className="font-medium">Next Full Moon:</span>{' '}
-                      {formatDate(getNextFullMoon(moonData.phase))}
+                      {formatDateTime(getNextFullMoon(moonData.date))}
                     </div>
 
                     <div>
                       <span className="font-medium">Next New Moon:</span>{' '}
-                      {formatDate(getNextNewMoon(moonData.phase))}
+                      {formatDateTime(getNextNewMoon(moonData.date))}
                     </div>
-                    */}
+                  </div>
+
+                  {/* Upcoming major phases */}
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 pt-2 text-sm">
+                    {MAJOR_PHASES.map((phase) => (
+                      <div key={phase} className="space-y-1">
+                        <div className="font-medium">{phase}</div>
+                        {getNextPhaseDates(moonData.date, phase, 3).map((date) => (
+                          <div key={date.getTime()} className="text-muted-foreground">
+                            {formatDateTime(date)}
+                          </div>
+                        ))}
+                      </div>
+                    ))}
                   </div>
                 </div>
               )}
@@ -704,7 +897,7 @@ const MoonVisibility = () => {
         </Dialog>
 
         <Dialog open={openDialog === 'position'} onOpenChange={() => { setOpenDialog(null); setOrientationEnabled(false); }}>
-          <DialogContent className="bg-card/0 backdrop-blur border-border max-w-lg">
+          <DialogContent className="bg-card/0 backdrop-blur border-border max-w-lg max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle className="flex items-center justify-between gap-2">
                 <div className="flex items-center gap-2">
@@ -736,6 +929,12 @@ const MoonVisibility = () => {
                 const moonX = centerX + radiusFromCenter * Math.sin(angleInRadians);
                 const moonY = centerY - radiusFromCenter * Math.cos(angleInRadians);
                 
+                // The Sun on the same projection
+                const sunRadius = maxRadius * (1 - Math.abs(moonData.sunAltitude) / 90);
+                const sunAngle = moonData.sunAzimuth * (Math.PI / 180);
+                const sunX = centerX + sunRadius * Math.sin(sunAngle);
+                const sunY = centerY - sunRadius * Math.cos(sunAngle);
+                
                 // Calculate rotation to align compass with device heading (negative for opposite direction)
                 const rotation = orientationEnabled && deviceHeading !== null ? -cumulativeRotationRef.current : 0;
                 
@@ -757,6 +956,10 @@ const MoonVisibility = () => {
                         strokeWidth="2"
                       />
                       
+                      {showSkyBrightness && skyInputs && (
+                        <SkyBrightnessOverlay inputs={skyInputs} centerX={centerX} centerY={centerY} radius={maxRadius} />
+                      )}
+                      
                       {/* Concentric circles for altitude levels (15°, 30°, 45°, 60°, 75°) */}
                       <circle
                         cx={centerX}
@@ -857,6 +1060,32 @@ const MoonVisibility = () => {
                         W
                       </text>
                       
+                      {/* Sun position: a ring with rays, dimmed below the horizon */}
+                      <g opacity={moonData.sunAltitude >= 0 ? 1 : 0.3}>
+                        {[0, 45, 90, 135, 180, 225, 270, 315].map((angle) => {
+                          const rad = angle * (Math.PI / 180);
+                          return (
+                            <line
+                              key={angle}
+                              x1={sunX + 9 * Math.sin(rad)}
+                              y1={sunY - 9 * Math.cos(rad)}
+                              x2={sunX + 13 * Math.sin(rad)}
+                              y2={sunY - 13 * Math.cos(rad)}
+                              stroke="hsl(var(--muted-foreground))"
+                              strokeWidth="1.5"
+                            />
+                          );
+                        })}
+                        <circle
+                          cx={sunX}
+                          cy={sunY}
+                          r="6"
+                          fill="none"
+                          stroke="hsl(var(--muted-foreground))"
+                          strokeWidth="1.5"
+                        />
+                      </g>
+                      
                       {/* Moon position */}
                       {altitude >= 0 ? (
                         <>
@@ -922,15 +1151,67 @@ const MoonVisibility = () => {
                         <span className="font-medium">Azimuth:</span>{' '}
                         {formatDegrees(moonData.azimuth)} ({getAzimuthDirection(moonData.azimuth)})
                       </div>
+                      <div>
+                        <span className="font-medium">Sun:</span>{' '}
+                        {formatDegrees(moonData.sunAltitude)} altitude, {formatDegrees(moonData.sunAzimuth)} ({getAzimuthDirection(moonData.sunAzimuth)})
+                      </div>
+                      <div>
+                        <span className="font-medium">Moon–Sun separation:</span>{' '}
+                        {formatDegrees(moonData.elongation)}
+                      </div>
                       {moonData.altitude < 0 && (
                         <div className="text-sm pt-2 text-amber-500">
                           Moon is currently below the horizon
                         </div>
                       )}
                     </div>
+
+                    {location && (
+                      <div className="w-full space-y-2">
+                        <div className="text-center font-semibold">Altitude Tonight</div>
+                        <AltitudeChart observer={location} date={moonData.date} />
+                      </div>
+                    )}
+                    
+                    {/* Sky brightness */}
+                    {skyInputs && (() => {
+                      const zenith = getSkyBrightness(skyInputs, 90, 0);
+                      // Bortle classes describe the site on a moonless night, so the Moon and twilight are left out
+                      const bortle = getBortleClass(getSkyBrightness({ ...skyInputs, moonAltitude: -90, sunAltitude: -90 }, 90, 0));
+                      return (
+                        <div className="space-y-1 text-center text-sm text-muted-foreground">
+                          {skyInputs.sunAltitude > -0.833 ? (
+                            <div>Daylight: no stars to the naked eye</div>
+                          ) : (
+                            <>
+                              <div>
+                                <span className="font-medium">Zenith sky:</span> {zenith.toFixed(1)} mag/arcsec² · Bortle {bortle} site
+                              </div>
+                              <div>
+                                <span className="font-medium">Faintest stars:</span> magnitude {getLimitingMagnitude(zenith).toFixed(1)} overhead
+                              </div>
+                            </>
+                          )}
+                          <div className="text-xs">
+                            {artificialBrightness === null
+                              ? 'Moonlight and twilight only; light pollution data is not available.'
+                              : 'Estimated from moonlight, twilight and a coarse light pollution map; shading shows brighter sky.'}
+                          </div>
+                        </div>
+                      );
+                    })()}
                     
                     {/* Compass button */}
-                    <div className="flex justify-center pt-4">
+                    <div className="flex justify-center gap-2 pt-4">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setShowSkyBrightness(!showSkyBrightness)}
+                        className="text-xs hover:bg-background hover:text-foreground"
+                      >
+                        <Sparkles className={`w-4 h-4 mr-1 ${showSkyBrightness ? 'text-primary' : ''}`} />
+                        {showSkyBrightness ? 'Sky Glow On' : 'Sky Glow Off'}
+                      </Button>
                       <Button
                         variant="outline"
                         size="sm"
@@ -958,7 +1239,7 @@ const MoonVisibility = () => {
             </DialogHeader>
             <div className="py-6 text-center space-y-6">
               {moonData && (() => {
-                const timeRemaining = getTimeRemaining(moonData.rise);
+                const timeRemaining = getTimeRemaining(moonData.rise, new Date());
                 
                 return (
                   <div className="space-y-4">
@@ -967,11 +1248,23 @@ const MoonVisibility = () => {
                     </div>
                     {timeRemaining ? (
                       <div className="text-5xl font-bold font-doto text-primary">
-                        {timeRemaining.hours}h : {String(timeRemaining.minutes).padStart(2, '0')}m
+                        {formatCountdown(timeRemaining)}
                       </div>
                     ) : (
                       <div className="text-lg text-muted-foreground">
-                        No moonrise data available
+                        The Moon does not rise here in the next five weeks
+                      </div>
+                    )}
+                    {moonData.rise && timeRemaining && timeRemaining.hours >= 24 && (
+                      <div className="text-muted-foreground">{formatDateTime(moonData.rise)}</div>
+                    )}
+                    {moonData.horizonState !== 'rises-and-sets' && (
+                      <div className="text-sm text-muted-foreground space-y-1">
+                        <div>{HORIZON_STATE_NOTES[moonData.horizonState]}</div>
+                        <div className="text-xs">
+                          Far from the equator the Moon can stay up or down for days at a time around its monthly
+                          extremes of declination; the spells are longest near a major lunar standstill.
+                        </div>
                       </div>
                     )}
                   </div>
@@ -991,7 +1284,7 @@ const MoonVisibility = () => {
             </DialogHeader>
             <div className="py-6 text-center space-y-6">
               {moonData && (() => {
-                const timeRemaining = getTimeRemaining(moonData.set);
+                const timeRemaining = getTimeRemaining(moonData.set, new Date());
                 
                 return (
                   <div className="space-y-4">
@@ -1000,11 +1293,23 @@ const MoonVisibility = () => {
                     </div>
                     {timeRemaining ? (
                       <div className="text-5xl font-bold font-doto text-primary">
-                        {timeRemaining.hours}h : {String(timeRemaining.minutes).padStart(2, '0')}m
+                        {formatCountdown(timeRemaining)}
                       </div>
                     ) : (
                       <div className="text-lg text-muted-foreground">
-                        No moonset data available
+                        The Moon does not set here in the next five weeks
+                      </div>
+                    )}
+                    {moonData.set && timeRemaining && timeRemaining.hours >= 24 && (
+                      <div className="text-muted-foreground">{formatDateTime(moonData.set)}</div>
+                    )}
+                    {moonData.horizonState !== 'rises-and-sets' && (
+                      <div className="text-sm text-muted-foreground space-y-1">
+                        <div>{HORIZON_STATE_NOTES[moonData.horizonState]}</div>
+                        <div className="text-xs">
+                          Far from the equator the Moon can stay up or down for days at a time around its monthly
+                          extremes of declination; the spells are longest near a major lunar standstill.
+                        </div>
                       </div>
                     )}
                   </div>
@@ -1014,6 +1319,156 @@ const MoonVisibility = () => {
           </DialogContent>
         </Dialog>
 
+        <Dialog open={openDialog === 'transit'} onOpenChange={() => setOpenDialog(null)}>
+          <DialogContent className="bg-card/0 backdrop-blur border-border max-w-lg">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <ChevronsUp className="w-5 h-5" />
+                Transit Details
+              </DialogTitle>
+            </DialogHeader>
+            <div className="py-6 text-center space-y-6">
+              {moonData && (
+                <>
+                  <div className="space-y-4">
+                    <div className="text-2xl font-semibold">
+                      Best viewing tonight:
+                    </div>
+                    {moonData.bestViewing ? (
+                      <>
+                        <div className="text-5xl font-bold font-doto text-primary">
+                          {formatTime(moonData.bestViewing.date)}
+                        </div>
+                        <div className="text-muted-foreground">
+                          {formatDegrees(moonData.bestViewing.altitude)} high in the {getAzimuthDirection(moonData.bestViewing.azimuth)}
+                        </div>
+                      </>
+                    ) : (
+                      <div className="text-lg text-muted-foreground">
+                        The Moon is not up while the sky is dark tonight
+                      </div>
+                    )}
+                    <div className="text-xs text-muted-foreground">
+                      Highest point of the Moon from now until dawn while the Sun is more than 6° below the horizon.
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-2 text-sm text-muted-foreground text-left max-w-sm mx-auto">
+                    <span className="font-medium">Culmination</span>
+                    <span className="font-medium">Time</span>
+                    <span className="font-medium">Altitude</span>
+                    {[
+                      { label: 'Upper', culmination: moonData.upperCulmination },
+                      { label: 'Lower', culmination: moonData.lowerCulmination }
+                    ].map(({ label, culmination }) => (
+                      <div key={label} className="contents">
+                        <span>{label}</span>
+                        <span>{culmination ? formatDateTime(culmination.date) : 'N/A'}</span>
+                        <span>{culmination ? formatDegrees(culmination.altitude) : 'N/A'}</span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        {sunTimes && (
+          <SunDialog
+            open={openDialog === 'sun'}
+            onOpenChange={() => setOpenDialog(null)}
+            sunTimes={sunTimes}
+            sunAltitude={moonData.sunAltitude}
+            sunAzimuth={moonData.sunAzimuth}
+          />
+        )}
+
+        {location && (
+          <DarkSkyDialog
+            open={openDialog === 'dark-sky'}
+            onOpenChange={() => setOpenDialog(null)}
+            observer={location}
+            date={moonData.date}
+          />
+        )}
+
+        {location && clouds.forecast && clouds.source && (
+          <CloudOutlookDialog
+            open={openDialog === 'clouds'}
+            onOpenChange={() => setOpenDialog(null)}
+            observer={location}
+            date={moonData.date}
+            forecast={clouds.forecast}
+            source={clouds.source}
+          />
+        )}
+
+        <FavouritesDialog
+          open={openDialog === 'favourites'}
+          onOpenChange={() => setOpenDialog(null)}
+          favourites={favourites.favourites}
+          current={location}
+          onAdd={favourites.add}
+          onUpdate={favourites.update}
+          onRemove={favourites.remove}
+          onMove={favourites.move}
+          onSelect={(favourite) => {
+            setOpenDialog(null);
+            handleCityChange(favouriteToLocation(favourite));
+          }}
+        />
+
+        {location && (
+          <MoonMapDialog
+            open={openDialog === 'map'}
+            onOpenChange={() => setOpenDialog(null)}
+            observer={location}
+            date={moonData.date}
+          />
+        )}
+
+        {crescent && location && (
+          <CrescentDialog
+            open={openDialog === 'crescent'}
+            onOpenChange={() => setOpenDialog(null)}
+            crescent={crescent}
+            observer={location}
+            date={moonData.date}
+          />
+        )}
+
+        {libration && location && (
+          <FeatureDialog
+            open={openDialog === 'features'}
+            onOpenChange={() => setOpenDialog(null)}
+            libration={libration}
+            features={featuresInRelief}
+            parallacticAngle={moonData.parallacticAngle}
+            observer={location}
+            date={moonData.date}
+          />
+        )}
+
+        {sizeExtremes && (
+          <DistanceDialog
+            open={openDialog === 'distance'}
+            onOpenChange={() => setOpenDialog(null)}
+            moonData={moonData}
+            extremes={sizeExtremes}
+          />
+        )}
+
+        {location && (
+          <EclipseDialog
+            open={openDialog === 'eclipse' || openDialog === 'solar-eclipse'}
+            onOpenChange={() => setOpenDialog(null)}
+            observer={location}
+            date={moonData.date}
+            initialTab={openDialog === 'solar-eclipse' ? 'solar' : 'lunar'}
+          />
+        )}
+
         {/* Last Updated */}
         <div className="text-center text-sm text-muted-foreground">
           <div className="flex items-center justify-center gap-2">
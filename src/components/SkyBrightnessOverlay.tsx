@@ -0,0 +1,52 @@
+import { useMemo } from 'react';
+import { getSkyBrightness, NATURAL_SKY_BRIGHTNESS, type SkyBrightnessInputs } from '@/lib/moon';
+
+interface SkyBrightnessOverlayProps {
+  inputs: SkyBrightnessInputs;
+  centerX: number;
+  centerY: number;
+  // Radius of the horizon circle; the zenith is at the centre
+  radius: number;
+}
+
+const ALTITUDE_STEP = 10;
+const AZIMUTH_STEP = 15;
+// Sky this many magnitudes brighter than a pristine one is drawn fully shaded
+const SHADING_RANGE = 6;
+const MAX_OPACITY = 0.6;
+
+// Brightness of the sky dome in altitude–azimuth cells, drawn for the polar sky chart (north up, east right)
+const SkyBrightnessOverlay = ({ inputs, centerX, centerY, radius }: SkyBrightnessOverlayProps) => {
+  const cells = useMemo(() => {
+    const point = (r: number, azimuth: number) => {
+      const angle = azimuth * (Math.PI / 180);
+      return `${centerX + r * Math.sin(angle)} ${centerY - r * Math.cos(angle)}`;
+    };
+
+    const result: { path: string; opacity: number }[] = [];
+    for (let altitude = 0; altitude < 90; altitude += ALTITUDE_STEP) {
+      const outer = radius * (1 - altitude / 90);
+      const inner = radius * (1 - (altitude + ALTITUDE_STEP) / 90);
+      for (let azimuth = 0; azimuth < 360; azimuth += AZIMUTH_STEP) {
+        const brightness = getSkyBrightness(inputs, altitude + ALTITUDE_STEP / 2, azimuth + AZIMUTH_STEP / 2);
+        const shade = Math.min(1, Math.max(0, (NATURAL_SKY_BRIGHTNESS - brightness) / SHADING_RANGE));
+        const next = azimuth + AZIMUTH_STEP;
+        result.push({
+          path: `M ${point(outer, azimuth)} A ${outer} ${outer} 0 0 1 ${point(outer, next)} L ${point(inner, next)} A ${inner} ${inner} 0 0 0 ${point(inner, azimuth)} Z`,
+          opacity: shade * MAX_OPACITY
+        });
+      }
+    }
+    return result;
+  }, [inputs, centerX, centerY, radius]);
+
+  return (
+    <g pointerEvents="none">
+      {cells.map(({ path, opacity }, i) => (
+        <path key={i} d={path} fill="hsl(var(--foreground))" fillOpacity={opacity} />
+      ))}
+    </g>
+  );
+};
+
+export default SkyBrightnessOverlay;
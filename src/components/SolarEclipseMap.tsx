@@ -0,0 +1,64 @@
+import WorldMap from '@/components/WorldMap';
+import { lineToPath } from '@/lib/world-map';
+import type { Observer, SolarEclipse } from '@/lib/moon';
+
+interface SolarEclipseMapProps {
+  eclipse: SolarEclipse;
+  observer: Observer;
+}
+
+const MAP_WIDTH = 720;
+const MAP_HEIGHT = 360;
+
+const SolarEclipseMap = ({ eclipse, observer }: SolarEclipseMapProps) => {
+  const centre = eclipse.path.map((p) => [p.longitude, p.latitude]);
+  const north = eclipse.path.filter((p) => p.northLimit).map((p) => [p.northLimit[1], p.northLimit[0]]);
+  const south = eclipse.path.filter((p) => p.southLimit).map((p) => [p.southLimit[1], p.southLimit[0]]);
+  const greatest = eclipse.path.reduce<SolarEclipse['path'][number] | null>(
+    (best, p) =>
+      !best ||
+      Math.abs(p.date.getTime() - eclipse.greatest.getTime()) < Math.abs(best.date.getTime() - eclipse.greatest.getTime())
+        ? p
+        : best,
+    null
+  );
+
+  return (
+    <div className="space-y-2">
+      <WorldMap width={MAP_WIDTH} height={MAP_HEIGHT}>
+        {(project) => {
+          const [x, y] = project(observer.longitude, observer.latitude);
+          const star = greatest && project(greatest.longitude, greatest.latitude);
+          return (
+            <>
+              <path d={lineToPath(north, project)} fill="none" stroke="hsl(var(--visible))" strokeWidth="1" opacity="0.6" />
+              <path d={lineToPath(south, project)} fill="none" stroke="hsl(var(--visible))" strokeWidth="1" opacity="0.6" />
+              <path d={lineToPath(centre, project)} fill="none" stroke="hsl(var(--primary))" strokeWidth="2" />
+              {star && <circle cx={star[0]} cy={star[1]} r="3" fill="hsl(var(--primary))" />}
+              <circle cx={x} cy={y} r="4" fill="hsl(var(--primary))" stroke="hsl(var(--background))" strokeWidth="1.5" />
+            </>
+          );
+        }}
+      </WorldMap>
+
+      <div className="flex flex-wrap justify-center gap-3 text-xs text-muted-foreground">
+        {eclipse.path.length > 0 ? (
+          <>
+            <div className="flex items-center gap-1">
+              <span className="inline-block w-4 h-0.5 bg-primary" />
+              Central line
+            </div>
+            <div className="flex items-center gap-1">
+              <span className="inline-block w-4 h-0.5 bg-visible opacity-60" />
+              Path limits
+            </div>
+          </>
+        ) : (
+          <div>No central path: the Moon's shadow axis misses the Earth.</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SolarEclipseMap;
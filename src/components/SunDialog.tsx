@@ -0,0 +1,86 @@
+import { SunMedium } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { getAzimuthDirection, getSkyCondition, type SkyCondition, type SunTimes } from '@/lib/moon';
+
+interface SunDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sunTimes: SunTimes;
+  sunAltitude: number;
+  sunAzimuth: number;
+}
+
+const SKY_CONDITION_LABELS: Record<SkyCondition, string> = {
+  day: 'Daylight',
+  'civil-twilight': 'Civil twilight',
+  'nautical-twilight': 'Nautical twilight',
+  'astronomical-twilight': 'Astronomical twilight',
+  night: 'Dark night'
+};
+
+const formatTime = (date: Date | null): string =>
+  date ? date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }) : '—';
+
+const SunDialog = ({ open, onOpenChange, sunTimes, sunAltitude, sunAzimuth }: SunDialogProps) => {
+  const { dawn, dusk } = sunTimes;
+  const rows = [
+    { label: 'Astronomical dawn', date: dawn.astronomical },
+    { label: 'Nautical dawn', date: dawn.nautical },
+    { label: 'Civil dawn', date: dawn.civil },
+    { label: 'Sunrise', date: sunTimes.sunrise },
+    { label: 'Solar noon', date: sunTimes.solarNoon, note: `${Math.round(sunTimes.noonAltitude)}° high` },
+    { label: 'Sunset', date: sunTimes.sunset },
+    { label: 'Civil dusk', date: dusk.civil },
+    { label: 'Nautical dusk', date: dusk.nautical },
+    { label: 'Astronomical dusk', date: dusk.astronomical }
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card/0 backdrop-blur border-border max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <SunMedium className="w-5 h-5" />
+            Sun and Twilight
+          </DialogTitle>
+        </DialogHeader>
+        <div className="py-6 text-center space-y-6">
+          <div className="space-y-2">
+            <div className="text-2xl font-semibold">{SKY_CONDITION_LABELS[getSkyCondition(sunAltitude)]}</div>
+            <div className="text-muted-foreground">
+              Sun {Math.round(sunAltitude)}° {sunAltitude >= 0 ? 'above' : 'below'} the horizon in the{' '}
+              {getAzimuthDirection(sunAzimuth)}
+            </div>
+          </div>
+
+          {sunTimes.horizonState !== 'rises-and-sets' && (
+            <div className="text-sm text-muted-foreground">
+              {sunTimes.horizonState === 'circumpolar'
+                ? 'Midnight sun: the Sun does not set today.'
+                : 'Polar night: the Sun does not rise today.'}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2 text-sm text-muted-foreground text-left max-w-xs mx-auto">
+            {rows.map(({ label, date, note }) => (
+              <div key={label} className="contents">
+                <span className="font-medium">{label}</span>
+                <span>
+                  {formatTime(date)}
+                  {note && <span className="text-xs"> · {note}</span>}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="text-xs text-muted-foreground space-y-1">
+            <div>Civil, nautical and astronomical twilight end with the Sun 6°, 12° and 18° below the horizon.</div>
+            <div>A dash means the Sun does not reach that altitude today.</div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SunDialog;
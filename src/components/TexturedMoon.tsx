@@ -0,0 +1,134 @@
+import { useEffect, useRef, useState } from 'react';
+import { loadMoonTexture } from '@/lib/moon-texture';
+import { cn } from '@/lib/utils';
+import { getDiscPosition, type Libration } from '@/lib/moon';
+
+export interface MoonMarker {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+interface TexturedMoonProps {
+  libration: Libration;
+  // Angle between celestial north and the zenith at the Moon; 0 draws the disc north-up
+  parallacticAngle?: number;
+  // Canvas resolution in pixels; the element is sized by className
+  size?: number;
+  // Surface features to ring and label
+  markers?: MoonMarker[];
+  className?: string;
+}
+
+const RAD = Math.PI / 180;
+// Faint earthshine on the night side
+const EARTHSHINE = 0.06;
+// Width of the soft terminator, as a cosine of the Sun's incidence angle
+const TERMINATOR_SOFTNESS = 0.04;
+
+const renderMoon = (
+  canvas: HTMLCanvasElement,
+  texture: ImageData,
+  libration: Libration,
+  parallacticAngle: number,
+  size: number
+) => {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+  const image = context.createImageData(size, size);
+
+  const l = libration.longitude * RAD;
+  const b = libration.latitude * RAD;
+  // Lunar north sits this far counter-clockwise from the top of the canvas
+  const theta = (libration.positionAngle - parallacticAngle) * RAD;
+  const sunL = libration.subSolarLongitude * RAD;
+  const sunB = libration.subSolarLatitude * RAD;
+  const sun = [Math.cos(sunB) * Math.cos(sunL), Math.cos(sunB) * Math.sin(sunL), Math.sin(sunB)];
+
+  // Moon-fixed directions of the viewer, and of right and up on the disc with lunar north up
+  const view = [Math.cos(b) * Math.cos(l), Math.cos(b) * Math.sin(l), Math.sin(b)];
+  const east = [-Math.sin(l), Math.cos(l), 0];
+  const north = [-Math.sin(b) * Math.cos(l), -Math.sin(b) * Math.sin(l), Math.cos(b)];
+
+  const half = size / 2;
+  for (let py = 0; py < size; py++) {
+    for (let px = 0; px < size; px++) {
+      const x = (px + 0.5 - half) / half;
+      const y = (half - py - 0.5) / half;
+      const r2 = x * x + y * y;
+      if (r2 > 1) continue;
+
+      // Undo the rotation so lunar north is up; selenographic east then lies to the right
+      const xr = x * Math.cos(theta) + y * Math.sin(theta);
+      const yr = -x * Math.sin(theta) + y * Math.cos(theta);
+      const z = Math.sqrt(1 - r2);
+      const p = [0, 1, 2].map(i => xr * east[i] + yr * north[i] + z * view[i]);
+
+      const longitude = Math.atan2(p[1], p[0]);
+      const latitude = Math.asin(p[2]);
+      const u = Math.min(texture.width - 1, Math.floor(((longitude / RAD + 180) / 360) * texture.width));
+      const v = Math.min(texture.height - 1, Math.floor(((90 - latitude / RAD) / 180) * texture.height));
+      const albedo = texture.data[(v * texture.width + u) * 4] / 255;
+
+      const incidence = p[0] * sun[0] + p[1] * sun[1] + p[2] * sun[2];
+      const lit = Math.min(1, Math.max(0, (incidence + TERMINATOR_SOFTNESS) / (2 * TERMINATOR_SOFTNESS)));
+      const brightness = albedo * (EARTHSHINE + (1 - EARTHSHINE) * lit);
+
+      const index = (py * size + px) * 4;
+      const value = Math.round(Math.min(1, brightness * 1.3) * 255);
+      image.data[index] = value;
+      image.data[index + 1] = value;
+      image.data[index + 2] = value;
+      // Anti-alias the limb
+      image.data[index + 3] = Math.round(Math.min(1, (1 - Math.sqrt(r2)) * half) * 255);
+    }
+  }
+
+  context.putImageData(image, 0, 0);
+};
+
+// The Moon's face from a bundled albedo map, turned for libration and lit by the Sun, zenith up
+const TexturedMoon = ({ libration, parallacticAngle = 0, size = 256, markers = [], className }: TexturedMoonProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [texture, setTexture] = useState<ImageData | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadMoonTexture()
+      .then((data) => {
+        if (!cancelled) setTexture(data);
+      })
+      .catch((error) => console.error('Failed to load Moon texture:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (texture && canvasRef.current) {
+      renderMoon(canvasRef.current, texture, libration, parallacticAngle, size);
+    }
+  }, [texture, libration, parallacticAngle, size]);
+
+  return (
+    <div className={cn('relative w-32 h-32', className)}>
+      <canvas ref={canvasRef} width={size} height={size} className="w-full h-full" />
+      {markers.length > 0 && (
+        <svg viewBox="-1 -1 2 2" className="absolute inset-0 w-full h-full overflow-visible">
+          {markers.map((marker) => {
+            const position = getDiscPosition(marker.latitude, marker.longitude, libration, parallacticAngle);
+            if (!position.facing) return null;
+            return (
+              <g key={marker.name} transform={`translate(${position.x} ${-position.y})`}>
+                <circle r="0.04" fill="none" stroke="hsl(var(--primary))" strokeWidth="0.012" />
+                <text x="0.06" y="0.025" fontSize="0.07" fill="hsl(var(--primary))">{marker.name}</text>
+              </g>
+            );
+          })}
+        </svg>
+      )}
+    </div>
+  );
+};
+
+export default TexturedMoon;
@@ -0,0 +1,53 @@
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import { equirectangular, geometryToPath, loadLand, type Projection } from '@/lib/world-map';
+import { cn } from '@/lib/utils';
+
+interface WorldMapProps {
+  width?: number;
+  height?: number;
+  className?: string;
+  // Overlays drawn above the land, in map pixel space
+  children?: (project: Projection) => ReactNode;
+}
+
+const GRATICULE_STEP = 30;
+
+const WorldMap = ({ width = 720, height = 360, className, children }: WorldMapProps) => {
+  const project = useMemo(() => equirectangular(width, height), [width, height]);
+  const [landPath, setLandPath] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLand()
+      .then((land) => {
+        if (!cancelled) setLandPath(geometryToPath(land, project));
+      })
+      .catch((error) => console.error('Failed to load world map:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [project]);
+
+  const graticule = [];
+  for (let lng = -180 + GRATICULE_STEP; lng < 180; lng += GRATICULE_STEP) {
+    const [x] = project(lng, 0);
+    graticule.push(<line key={`lng${lng}`} x1={x} y1={0} x2={x} y2={height} />);
+  }
+  for (let lat = -90 + GRATICULE_STEP; lat < 90; lat += GRATICULE_STEP) {
+    const [, y] = project(0, lat);
+    graticule.push(<line key={`lat${lat}`} x1={0} y1={y} x2={width} y2={y} />);
+  }
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className={cn('w-full h-auto rounded-md border border-border', className)}>
+      <rect width={width} height={height} fill="hsl(var(--background))" />
+      {landPath && <path d={landPath} fill="hsl(var(--accent))" stroke="hsl(var(--border))" strokeWidth="0.5" />}
+      <g stroke="hsl(var(--border))" strokeWidth="0.5" opacity="0.4">
+        {graticule}
+      </g>
+      {children?.(project)}
+    </svg>
+  );
+};
+
+export default WorldMap;
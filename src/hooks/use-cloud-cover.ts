@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import type { Observer } from '@/lib/moon';
+import { getWeatherProvider, type CloudCover } from '@/lib/weather';
+
+// Forecasts are hourly and only revised every few hours
+const REFRESH_MS = 30 * 60 * 1000;
+// Enough to take in tonight and tomorrow night
+const FORECAST_HOURS = 36;
+const HOUR_MS = 60 * 60 * 1000;
+
+const provider = getWeatherProvider();
+
+export interface CloudCoverState {
+  // null until the first forecast arrives, or always when no provider is configured
+  forecast: CloudCover[] | null;
+  source: string | null;
+  error: string | null;
+}
+
+// Hourly cloud cover at `observer` from the configured provider, refreshed in the background
+export const useCloudCover = (observer: Observer | null): CloudCoverState => {
+  const [forecast, setForecast] = useState<CloudCover[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const latitude = observer?.latitude;
+  const longitude = observer?.longitude;
+
+  useEffect(() => {
+    if (!provider || latitude === undefined || longitude === undefined) return;
+    setForecast(null);
+    let controller: AbortController | null = null;
+
+    const load = async () => {
+      controller?.abort();
+      controller = new AbortController();
+      const start = new Date(Date.now() - HOUR_MS);
+      const end = new Date(Date.now() + FORECAST_HOURS * HOUR_MS);
+      try {
+        setForecast(await provider.getHourlyCloudCover({ latitude, longitude }, start, end, controller.signal));
+        setError(null);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') return;
+        setError(err instanceof Error ? err.message : 'Failed to get cloud cover');
+      }
+    };
+
+    load();
+    const interval = setInterval(load, REFRESH_MS);
+    return () => {
+      clearInterval(interval);
+      controller?.abort();
+    };
+  }, [latitude, longitude]);
+
+  return { forecast, source: provider?.name ?? null, error };
+};
@@ -0,0 +1,47 @@
+import { useCallback, useState } from 'react';
+import { createFavouriteId, loadFavourites, saveFavourites, type SavedLocation } from '@/lib/saved-locations';
+
+// Saved locations, written back to storage on every change
+export const useFavourites = () => {
+  const [favourites, setFavourites] = useState<SavedLocation[]>(loadFavourites);
+
+  const commit = useCallback((update: (current: SavedLocation[]) => SavedLocation[]) => {
+    setFavourites((current) => {
+      const next = update(current);
+      saveFavourites(next);
+      return next;
+    });
+  }, []);
+
+  const add = useCallback(
+    (favourite: Omit<SavedLocation, 'id'>) => commit((current) => [...current, { ...favourite, id: createFavouriteId() }]),
+    [commit]
+  );
+
+  const update = useCallback(
+    (id: string, changes: Partial<Omit<SavedLocation, 'id'>>) =>
+      commit((current) => current.map((favourite) => (favourite.id === id ? { ...favourite, ...changes } : favourite))),
+    [commit]
+  );
+
+  const remove = useCallback(
+    (id: string) => commit((current) => current.filter((favourite) => favourite.id !== id)),
+    [commit]
+  );
+
+  // Move a favourite up (-1) or down (+1) the list
+  const move = useCallback(
+    (id: string, offset: number) =>
+      commit((current) => {
+        const from = current.findIndex((favourite) => favourite.id === id);
+        const to = from + offset;
+        if (from === -1 || to < 0 || to >= current.length) return current;
+        const next = [...current];
+        next.splice(to, 0, ...next.splice(from, 1));
+        return next;
+      }),
+    [commit]
+  );
+
+  return { favourites, add, update, remove, move };
+};
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import type { Observer } from '@/lib/moon';
+import { getArtificialBrightness, loadLightPollutionGrid } from '@/lib/light-pollution';
+
+// Artificial zenith brightness over the natural sky at `observer`; null until the grid has loaded (or if it fails)
+export const useLightPollution = (observer: Observer | null): number | null => {
+  const [grid, setGrid] = useState<Uint8Array | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLightPollutionGrid()
+      .then((data) => {
+        if (!cancelled) setGrid(data);
+      })
+      .catch((error) => console.error('Failed to load light pollution grid:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!grid || !observer) return null;
+  return getArtificialBrightness(grid, observer.latitude, observer.longitude);
+};
@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState } from 'react';
+import { angularSeparation } from '@/lib/moon';
+
+export interface TrailPoint {
+  latitude: number;
+  longitude: number;
+  // Metres above sea level, when the device reports it
+  elevation?: number;
+  time: Date;
+}
+
+interface SamplingPolicy {
+  // Recompute only after moving this far, km
+  minDistanceKm: number;
+  // ...and no more often than this
+  minIntervalMs: number;
+  // Fixes this old are fine to reuse, which lets the device skip powering up the GPS
+  maximumAgeMs: number;
+}
+
+// Network positioning is plenty for kilometre thresholds and far cheaper than GPS
+const NORMAL_POLICY: SamplingPolicy = { minDistanceKm: 1, minIntervalMs: 30 * 1000, maximumAgeMs: 60 * 1000 };
+// Below 20% and not charging, sample much less often
+const LOW_BATTERY_POLICY: SamplingPolicy = {
+  minDistanceKm: 5,
+  minIntervalMs: 5 * 60 * 1000,
+  maximumAgeMs: 5 * 60 * 1000
+};
+const LOW_BATTERY_LEVEL = 0.2;
+const KM_PER_DEGREE = 111.2;
+const TRAIL_LENGTH = 100;
+
+// Not in TypeScript's DOM types, and missing from Firefox and Safari
+interface BatteryManager extends EventTarget {
+  level: number;
+  charging: boolean;
+}
+
+const distanceKm = (a: TrailPoint, b: { latitude: number; longitude: number }): number =>
+  angularSeparation(a.longitude, a.latitude, b.longitude, b.latitude) * KM_PER_DEGREE;
+
+// Follows the device with watchPosition while `enabled`, calling `onMove` each time it has moved far enough to
+// redo the sums. The watch stops while the page is hidden and backs off on a low battery.
+export const useLocationTracking = (enabled: boolean, onMove: (point: TrailPoint) => void) => {
+  const [trail, setTrail] = useState<TrailPoint[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [policy, setPolicy] = useState<SamplingPolicy>(NORMAL_POLICY);
+  const [visible, setVisible] = useState(() => document.visibilityState === 'visible');
+  const onMoveRef = useRef(onMove);
+  const lastRef = useRef<TrailPoint | null>(null);
+  onMoveRef.current = onMove;
+
+  // A fresh trail each time tracking is switched on
+  useEffect(() => {
+    if (!enabled) return;
+    lastRef.current = null;
+    setTrail([]);
+    setError(null);
+  }, [enabled]);
+
+  useEffect(() => {
+    const handleVisibility = () => setVisible(document.visibilityState === 'visible');
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, []);
+
+  useEffect(() => {
+    const getBattery = (navigator as Navigator & { getBattery?: () => Promise<BatteryManager> }).getBattery;
+    if (!enabled || !getBattery) return;
+    let battery: BatteryManager | null = null;
+    const update = () => {
+      if (!battery) return;
+      setPolicy(!battery.charging && battery.level < LOW_BATTERY_LEVEL ? LOW_BATTERY_POLICY : NORMAL_POLICY);
+    };
+    getBattery
+      .call(navigator)
+      .then((manager) => {
+        battery = manager;
+        update();
+        manager.addEventListener('levelchange', update);
+        manager.addEventListener('chargingchange', update);
+      })
+      .catch(() => setPolicy(NORMAL_POLICY));
+    return () => {
+      battery?.removeEventListener('levelchange', update);
+      battery?.removeEventListener('chargingchange', update);
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled || !visible) return;
+    if (!navigator.geolocation) {
+      setError('Geolocation is not supported by this browser');
+      return;
+    }
+
+    const id = navigator.geolocation.watchPosition(
+      ({ coords, timestamp }) => {
+        setError(null);
+        const point: TrailPoint = {
+          latitude: coords.latitude,
+          longitude: coords.longitude,
+          elevation: coords.altitude ?? undefined,
+          time: new Date(timestamp)
+        };
+        const last = lastRef.current;
+        if (last) {
+          // Movement smaller than the fix's own uncertainty is just jitter
+          const threshold = Math.max(policy.minDistanceKm, coords.accuracy / 1000);
+          if (point.time.getTime() - last.time.getTime() < policy.minIntervalMs) return;
+          if (distanceKm(last, point) < threshold) return;
+        }
+        lastRef.current = point;
+        setTrail((current) => [...current, point].slice(-TRAIL_LENGTH));
+        onMoveRef.current(point);
+      },
+      (positionError) => setError(`Location error: ${positionError.message}`),
+      { enableHighAccuracy: false, maximumAge: policy.maximumAgeMs, timeout: 60 * 1000 }
+    );
+    return () => navigator.geolocation.clearWatch(id);
+  }, [enabled, visible, policy]);
+
+  return { trail, error, lowPower: policy === LOW_BATTERY_POLICY };
+};
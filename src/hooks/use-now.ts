@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+
+// How often the Moon's position is recomputed on screen
+export const MOON_REFRESH_INTERVAL_MS = 60 * 1000;
+
+// The current time, ticking over every `intervalMs`
+export const useNow = (intervalMs = MOON_REFRESH_INTERVAL_MS): Date => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return now;
+};
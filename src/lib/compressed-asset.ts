@@ -0,0 +1,8 @@
+// Bundled data files are gzipped by their build scripts and inflated in the browser on first use.
+export const fetchGzipped = async (url: string): Promise<ArrayBuffer> => {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to load ${url}: ${response.statusText}`);
+  }
+  return new Response(response.body.pipeThrough(new DecompressionStream('gzip'))).arrayBuffer();
+};
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { formatCoordinates, parseCoordinates } from './coordinates';
+
+const expectPoint = (
+  input: string,
+  latitude: number,
+  longitude: number,
+  reference?: { latitude: number; longitude: number },
+  digits = 6
+) => {
+  const point = parseCoordinates(input, reference);
+  expect(point.latitude).toBeCloseTo(latitude, digits);
+  expect(point.longitude).toBeCloseTo(longitude, digits);
+  return point;
+};
+
+describe('decimal degrees and DMS', () => {
+  it('reads signed decimal degrees with or without a comma', () => {
+    expect(expectPoint('40.7128, -74.0060', 40.7128, -74.006).format).toBe('decimal');
+    expectPoint('40.7128 -74.0060', 40.7128, -74.006);
+    expectPoint('-33.8688; 151.2093', -33.8688, 151.2093);
+    expectPoint('40 N 74 W', 40, -74);
+  });
+
+  it('reads the request example in degrees, minutes and seconds, in either order', () => {
+    expect(expectPoint('40°42\'46"N 74°0\'22"W', 40.712778, -74.006111).format).toBe('dms');
+    expectPoint('74°0\'22"W 40°42\'46"N', 40.712778, -74.006111);
+    expectPoint('40°42′46″N, 74°0′22″W', 40.712778, -74.006111);
+    expectPoint('40 42 46 -74 0 22', 40.712778, -74.006111);
+    expectPoint('51:28:38 N 0:0:5 W', 51.477222, -0.001389);
+  });
+
+  it('takes the poles and puts the antimeridian at -180°', () => {
+    expectPoint('90, 0', 90, 0);
+    expectPoint('-90, 180', -90, -180);
+    expectPoint('0, -180', 0, -180);
+    expectPoint('89°59\'59"S 179°59\'59"E', -89.999722, 179.999722);
+  });
+
+  it('explains what is wrong', () => {
+    expect(() => parseCoordinates('')).toThrow('Enter coordinates, a grid locator, a geohash or a Plus Code');
+    expect(() => parseCoordinates('91, 0')).toThrow('Latitude 91.0000 is beyond ±90°');
+    expect(() => parseCoordinates('0, 181')).toThrow('Longitude 181.0000 is beyond ±180°');
+    expect(() => parseCoordinates('40°60\'N 74W')).toThrow('Minutes and seconds must be under 60');
+    expect(() => parseCoordinates('-40N, 74E')).toThrow('Use either a minus sign or N, S, E, W');
+    expect(() => parseCoordinates('40N 74N')).toThrow('Give one latitude (N or S) and one longitude (E or W)');
+    expect(() => parseCoordinates('40.5 30, 74')).toThrow('Degrees must be whole when minutes follow');
+    expect(() => parseCoordinates('1, 2, 3')).toThrow('Use one comma, between latitude and longitude');
+    expect(() => parseCoordinates('40.7128')).toThrow('Enter a latitude and a longitude');
+    expect(() => parseCoordinates('hello')).toThrow('"hello" is not a coordinate, Maidenhead locator, geohash or Plus Code');
+  });
+
+  it('does not read a letter between digits as a hemisphere', () => {
+    expect(() => parseCoordinates('1e3, 4')).toThrow('put N, S, E or W before or after a number, not inside it');
+    expect(() => parseCoordinates('2.5E-3 4')).toThrow('not inside it');
+    expect(() => parseCoordinates('40N74W')).toThrow('not inside it');
+  });
+});
+
+describe('Maidenhead locators', () => {
+  it('returns the centre of the square at each precision', () => {
+    expect(expectPoint('FN31', 41.5, -73).format).toBe('maidenhead');
+    expectPoint('FN31pr', 41.729167, -72.708333);
+    expectPoint('fn31PR', 41.729167, -72.708333);
+    expectPoint('JO01', 51.5, 1);
+    expectPoint('RR99xx', 89.979167, 179.958333);
+    expectPoint('AA00aa', -89.979167, -179.958333);
+  });
+});
+
+describe('geohashes', () => {
+  it('returns the centre of the cell', () => {
+    expect(expectPoint('ezs42', 42.605, -5.603, undefined, 3).format).toBe('geohash');
+    expectPoint('u4pruydqqvj', 57.649111, 10.40744);
+    expectPoint('U4PRUYDQQVJ', 57.649111, 10.40744);
+  });
+
+  it('only takes one or two characters as a geohash when a digit is among them', () => {
+    expect(parseCoordinates('u4').format).toBe('geohash');
+    for (const input of ['s', 'u', 'C', 'N', 'us']) expect(() => parseCoordinates(input)).toThrow();
+  });
+});
+
+describe('Plus Codes', () => {
+  // Centres of the cells in the Open Location Code reference test data
+  it('decodes full codes', () => {
+    expect(expectPoint('7FG49QCJ+2V', 20.3700625, 2.7821875).format).toBe('plus-code');
+    expectPoint('7FG49QCJ+2VX', 20.3701125, 2.782234375);
+    expectPoint('8FVC2222+22', 47.0000625, 8.0000625);
+    expectPoint('4VCPPQGP+Q9', -41.2730625, 174.7859375);
+    expectPoint('7FG40000+', 20.5, 2.5);
+  });
+
+  it('keeps codes at the poles and the antimeridian on the globe', () => {
+    expectPoint('CFX3X2X2+X2', 89.9999375, 1.0000625);
+    expectPoint('22222222+22', -89.9999375, -179.9999375);
+    expect(() => parseCoordinates('RR000000+')).toThrow('Plus Code "RR000000+" is outside the globe');
+  });
+
+  it('recovers short codes from a nearby reference', () => {
+    // 8FVC9G8F+6X and 9C3W9QCJ+2VX
+    expectPoint('9G8F+6X', 47.3655625, 8.5249375, { latitude: 47.4, longitude: 8.6 });
+    expectPoint('CJ+2VX', 51.3701125, -1.217765625, { latitude: 51.3708675, longitude: -1.217765625 });
+    // CFX22222+22, which cannot shift north past the pole
+    expectPoint('2222+22', 89.0000625, 0.0000625, { latitude: 89.6, longitude: 0 });
+    // Across the antimeridian from the reference
+    expectPoint('2222+22', 0.0000625, -179.9999375, { latitude: 0, longitude: 179.9 });
+  });
+
+  it('explains what is wrong', () => {
+    expect(() => parseCoordinates('9G8F+6X')).toThrow('Short Plus Code "9G8F+6X" needs a nearby location');
+    expect(() => parseCoordinates('7FG49QCJ+2')).toThrow('"7FG49QCJ+2" is not a valid Plus Code');
+    expect(() => parseCoordinates('7FG4900+')).toThrow('is not a valid Plus Code');
+    expect(() => parseCoordinates('7FG40000+2V')).toThrow('is not a valid Plus Code');
+  });
+});
+
+describe('formatCoordinates', () => {
+  it('labels the hemispheres', () => {
+    expect(formatCoordinates({ latitude: 40.712778, longitude: -74.006111 })).toBe('40.7128°N 74.0061°W');
+    expect(formatCoordinates({ latitude: -33.8688, longitude: 151.2093 }, 1)).toBe('33.9°S 151.2°E');
+  });
+});
@@ -0,0 +1,258 @@
+// Typed-in locations: decimal degrees, degrees-minutes-seconds, Maidenhead locators, geohashes and Plus Codes.
+
+export type CoordinateFormat = 'decimal' | 'dms' | 'maidenhead' | 'geohash' | 'plus-code';
+
+export interface ParsedCoordinates {
+  latitude: number;
+  longitude: number;
+  format: CoordinateFormat;
+}
+
+export const COORDINATE_FORMAT_LABELS: Record<CoordinateFormat, string> = {
+  decimal: 'Decimal degrees',
+  dms: 'Degrees, minutes, seconds',
+  maidenhead: 'Maidenhead locator',
+  geohash: 'Geohash',
+  'plus-code': 'Plus Code'
+};
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+const OLC_ALPHABET = '23456789CFGHJMPQRVWX';
+// Degrees per digit of each of the five Plus Code letter pairs
+const OLC_PAIR_RESOLUTION = [20, 1, 0.05, 0.0025, 0.000125];
+const OLC_PAIR_LENGTH = 10;
+const OLC_SEPARATOR_POSITION = 8;
+const OLC_GRID_ROWS = 5;
+const OLC_GRID_COLUMNS = 4;
+
+const MAIDENHEAD_PATTERN = /^[A-R]{2}(?:\d{2}(?:[A-X]{2}(?:\d{2})?)?)?$/i;
+const GEOHASH_PATTERN = /^[0-9b-hjkmnp-z]{1,12}$/i;
+// Shorter hashes are only taken as geohashes when a digit sets them apart from words such as "us"
+const GEOHASH_MIN_LENGTH = 3;
+const PLUS_CODE_PATTERN = /^[23456789CFGHJMPQRVWX0]*\+[23456789CFGHJMPQRVWX]*$/i;
+
+const wrapLongitude = (longitude: number): number => ((((longitude + 180) % 360) + 360) % 360) - 180;
+
+// Centre of a Maidenhead square: field (20° × 10°), square (2° × 1°), subsquare (5′ × 2.5′), extended square
+const parseMaidenhead = (locator: string): ParsedCoordinates => {
+  const code = locator.toUpperCase();
+  let longitude = -180;
+  let latitude = -90;
+  let lonSize = 20;
+  let latSize = 10;
+  longitude += (code.charCodeAt(0) - 65) * lonSize;
+  latitude += (code.charCodeAt(1) - 65) * latSize;
+  for (let i = 2; i < code.length; i += 2) {
+    const letters = i % 4 === 0;
+    const divisions = letters ? 24 : 10;
+    lonSize /= divisions;
+    latSize /= divisions;
+    const base = letters ? 65 : 48;
+    longitude += (code.charCodeAt(i) - base) * lonSize;
+    latitude += (code.charCodeAt(i + 1) - base) * latSize;
+  }
+  return { latitude: latitude + latSize / 2, longitude: longitude + lonSize / 2, format: 'maidenhead' };
+};
+
+// Centre of a geohash cell; bits alternate longitude, latitude
+const parseGeohash = (hash: string): ParsedCoordinates => {
+  const latitude = [-90, 90];
+  const longitude = [-180, 180];
+  let even = true;
+  for (const char of hash.toLowerCase()) {
+    const value = GEOHASH_ALPHABET.indexOf(char);
+    for (let bit = 4; bit >= 0; bit--) {
+      const range = even ? longitude : latitude;
+      const middle = (range[0] + range[1]) / 2;
+      if ((value >> bit) & 1) range[0] = middle;
+      else range[1] = middle;
+      even = !even;
+    }
+  }
+  return {
+    latitude: (latitude[0] + latitude[1]) / 2,
+    longitude: (longitude[0] + longitude[1]) / 2,
+    format: 'geohash'
+  };
+};
+
+// First `length` characters (without separator) of the Plus Code for a point; enough to recover short codes
+const encodePlusCodePrefix = (latitude: number, longitude: number, length: number): string => {
+  let lat = Math.min(Math.max(latitude, -90), 90 - 1e-9) + 90;
+  let lon = wrapLongitude(longitude) + 180;
+  let code = '';
+  for (let pair = 0; code.length < length; pair++) {
+    const resolution = OLC_PAIR_RESOLUTION[pair];
+    const latDigit = Math.floor(lat / resolution);
+    const lonDigit = Math.floor(lon / resolution);
+    lat -= latDigit * resolution;
+    lon -= lonDigit * resolution;
+    code += OLC_ALPHABET[latDigit] + OLC_ALPHABET[lonDigit];
+  }
+  return code.slice(0, length);
+};
+
+const decodePlusCode = (code: string): { latitude: number; longitude: number } => {
+  const digits = code.replace('+', '').replace(/0+$/, '');
+  let latitude = -90;
+  let longitude = -180;
+  let latSize = 0;
+  let lonSize = 0;
+  for (let i = 0; i < Math.min(digits.length, OLC_PAIR_LENGTH); i += 2) {
+    latSize = lonSize = OLC_PAIR_RESOLUTION[i / 2];
+    latitude += OLC_ALPHABET.indexOf(digits[i]) * latSize;
+    longitude += OLC_ALPHABET.indexOf(digits[i + 1]) * lonSize;
+  }
+  for (let i = OLC_PAIR_LENGTH; i < digits.length; i++) {
+    latSize /= OLC_GRID_ROWS;
+    lonSize /= OLC_GRID_COLUMNS;
+    const value = OLC_ALPHABET.indexOf(digits[i]);
+    latitude += Math.floor(value / OLC_GRID_COLUMNS) * latSize;
+    longitude += (value % OLC_GRID_COLUMNS) * lonSize;
+  }
+  return { latitude: Math.min(latitude + latSize / 2, 90), longitude: longitude + lonSize / 2 };
+};
+
+// Full codes such as 87G8Q257+5W, or short codes such as Q257+5W resolved against a nearby reference point
+const parsePlusCode = (input: string, reference?: { latitude: number; longitude: number }): ParsedCoordinates => {
+  const code = input.toUpperCase();
+  const separator = code.indexOf('+');
+  const padding = code.indexOf('0');
+  const afterSeparator = code.length - separator - 1;
+  if (
+    separator !== code.lastIndexOf('+') ||
+    separator > OLC_SEPARATOR_POSITION ||
+    separator % 2 === 1 ||
+    afterSeparator === 1 ||
+    (padding !== -1 && (padding === 0 || padding % 2 === 1 || afterSeparator > 0 || !/^0+\+$/.test(code.slice(padding))))
+  ) {
+    throw new Error(`"${input}" is not a valid Plus Code`);
+  }
+
+  if (separator === OLC_SEPARATOR_POSITION) {
+    if (OLC_ALPHABET.indexOf(code[0]) * 20 >= 180 || OLC_ALPHABET.indexOf(code[1]) * 20 >= 360) {
+      throw new Error(`Plus Code "${input}" is outside the globe`);
+    }
+    return { ...decodePlusCode(code), format: 'plus-code' };
+  }
+
+  if (padding !== -1) throw new Error(`"${input}" is not a valid Plus Code`);
+  if (!reference) {
+    throw new Error(`Short Plus Code "${input}" needs a nearby location; enter the full code, e.g. 87G8Q257+5W`);
+  }
+  // Take the missing leading digits from the reference, then shift by one cell if that lands nearer
+  const missing = OLC_SEPARATOR_POSITION - separator;
+  const resolution = OLC_PAIR_RESOLUTION[missing / 2 - 1];
+  const point = decodePlusCode(encodePlusCodePrefix(reference.latitude, reference.longitude, missing) + code);
+  let { latitude, longitude } = point;
+  if (reference.latitude + resolution / 2 < latitude && latitude - resolution >= -90) latitude -= resolution;
+  else if (reference.latitude - resolution / 2 > latitude && latitude + resolution <= 90) latitude += resolution;
+  if (reference.longitude + resolution / 2 < longitude) longitude -= resolution;
+  else if (reference.longitude - resolution / 2 > longitude) longitude += resolution;
+  return { latitude, longitude: wrapLongitude(longitude), format: 'plus-code' };
+};
+
+interface Component {
+  value: number;
+  hemisphere: 'N' | 'S' | 'E' | 'W' | null;
+  dms: boolean;
+}
+
+// One coordinate: signed decimal degrees, or degrees with minutes (and seconds), with an optional hemisphere letter
+const parseComponent = (text: string): Component => {
+  const hemispheres = text.match(/[NSEW]/g) ?? [];
+  if (hemispheres.length > 1) throw new Error(`"${text.trim()}" has more than one N, S, E or W`);
+  const hemisphere = (hemispheres[0] ?? null) as Component['hemisphere'];
+  const rest = text.replace(/[NSEW]/, ' ');
+  if (/[^\d.\s°'"′″:+-]/.test(rest)) throw new Error(`Could not read "${text.trim()}"`);
+
+  const numbers = rest.match(/[+-]?\d+(?:\.\d+)?/g) ?? [];
+  if (numbers.length === 0 || numbers.length > 3) throw new Error(`Could not read "${text.trim()}"`);
+  const [degrees, minutes = 0, seconds = 0] = numbers.map(Number);
+  if (numbers.slice(1).some(n => /^[+-]/.test(n))) throw new Error(`Only the degrees of "${text.trim()}" can carry a sign`);
+  if (minutes >= 60 || seconds >= 60) throw new Error(`Minutes and seconds must be under 60 in "${text.trim()}"`);
+  if (numbers.length > 1 && !Number.isInteger(degrees)) {
+    throw new Error(`Degrees must be whole when minutes follow in "${text.trim()}"`);
+  }
+
+  const negative = degrees < 0 || Object.is(degrees, -0);
+  if (negative && hemisphere) throw new Error(`Use either a minus sign or N, S, E, W in "${text.trim()}", not both`);
+  const magnitude = Math.abs(degrees) + minutes / 60 + seconds / 3600;
+  const sign = negative || hemisphere === 'S' || hemisphere === 'W' ? -1 : 1;
+  return { value: sign * magnitude, hemisphere, dms: numbers.length > 1 || /[°'"′″:]/.test(rest) };
+};
+
+// Split "lat lon" into its two halves: at a comma, at the hemisphere letters, or down the middle of the numbers
+const splitPair = (text: string): [string, string] => {
+  const commaParts = text.split(/[,;]/);
+  if (commaParts.length === 2) return [commaParts[0], commaParts[1]];
+  if (commaParts.length > 2) throw new Error('Use one comma, between latitude and longitude');
+
+  const tokens = text.match(/[NSEW]|[+-]?\d+(?:\.\d+)?[°'"′″:]?/g) ?? [];
+  const letters = tokens.filter(token => /^[NSEW]$/.test(token)).length;
+  if (letters === 2) {
+    const leading = /^[NSEW]$/.test(tokens[0]);
+    const index = leading
+      ? tokens.findIndex((token, i) => i > 0 && /^[NSEW]$/.test(token))
+      : tokens.findIndex(token => /^[NSEW]$/.test(token)) + 1;
+    return [tokens.slice(0, index).join(' '), tokens.slice(index).join(' ')];
+  }
+  if (letters === 0 && tokens.length % 2 === 0 && tokens.length > 0 && tokens.length <= 6) {
+    const half = tokens.length / 2;
+    return [tokens.slice(0, half).join(' '), tokens.slice(half).join(' ')];
+  }
+  throw new Error('Enter a latitude and a longitude, e.g. 40.7128, -74.0060 or 40°42\'46"N 74°0\'22"W');
+};
+
+const parseLatLon = (text: string): ParsedCoordinates => {
+  let [first, second] = splitPair(text).map(parseComponent);
+  // Hemisphere letters may put longitude first
+  if (first.hemisphere === 'E' || first.hemisphere === 'W' || second.hemisphere === 'N' || second.hemisphere === 'S') {
+    [first, second] = [second, first];
+  }
+  if (first.hemisphere === 'E' || first.hemisphere === 'W' || second.hemisphere === 'N' || second.hemisphere === 'S') {
+    throw new Error('Give one latitude (N or S) and one longitude (E or W)');
+  }
+  if (Math.abs(first.value) > 90) throw new Error(`Latitude ${first.value.toFixed(4)} is beyond ±90°`);
+  if (Math.abs(second.value) > 180) throw new Error(`Longitude ${second.value.toFixed(4)} is beyond ±180°`);
+  return {
+    latitude: first.value,
+    longitude: second.value === 180 ? -180 : second.value,
+    format: first.dms || second.dms ? 'dms' : 'decimal'
+  };
+};
+
+// Reads any of the supported formats; throws an Error describing the problem when the input is not valid.
+// `reference` lets short Plus Codes resolve against the current location.
+export const parseCoordinates = (
+  input: string,
+  reference?: { latitude: number; longitude: number }
+): ParsedCoordinates => {
+  const text = input.trim().replace(/\s+/g, ' ');
+  if (!text) throw new Error('Enter coordinates, a grid locator, a geohash or a Plus Code');
+
+  if (text.includes('+') && PLUS_CODE_PATTERN.test(text)) return parsePlusCode(text, reference);
+  // A locator like FN31 is also a valid geohash; the locator reading wins
+  if (MAIDENHEAD_PATTERN.test(text)) return parseMaidenhead(text);
+  // Only letters other than N, S, E and W mark a geohash, so 40N74W is left to the coordinate checks
+  const letters = text.replace(/[NSEW]/gi, '');
+  if (
+    GEOHASH_PATTERN.test(text) &&
+    /[a-z]/i.test(letters) &&
+    (text.length >= GEOHASH_MIN_LENGTH || (text.length > 1 && /\d/.test(text)))
+  ) {
+    return parseGeohash(text);
+  }
+  if (/[a-z]/i.test(letters)) {
+    throw new Error(`"${text}" is not a coordinate, Maidenhead locator, geohash or Plus Code`);
+  }
+  // Catches exponents such as 1e3 as well as run-together numbers; the letter has to stand beside the number it labels
+  if (/\d[NSEW][+-]?\d/i.test(text)) {
+    throw new Error(`Could not read "${text}"; put N, S, E or W before or after a number, not inside it`);
+  }
+  return parseLatLon(text.toUpperCase());
+};
+
+// Compact label for a typed-in point, e.g. 40.7128°N 74.0060°W
+export const formatCoordinates = ({ latitude, longitude }: { latitude: number; longitude: number }, digits = 4): string =>
+  `${Math.abs(latitude).toFixed(digits)}°${latitude >= 0 ? 'N' : 'S'} ${Math.abs(longitude).toFixed(digits)}°${longitude >= 0 ? 'E' : 'W'}`;
@@ -0,0 +1,69 @@
+import { readFileSync } from 'node:fs';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { findNearestPlace, formatPlace, loadGazetteer, searchPlaces, type IndexedPlace } from './gazetteer';
+
+let places: IndexedPlace[];
+
+// The bundled list itself, served from disk in place of the browser's fetch
+beforeAll(async () => {
+  const data = readFileSync(new URL('../assets/gazetteer.bin', import.meta.url));
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(data)));
+  places = await loadGazetteer();
+  vi.unstubAllGlobals();
+});
+
+const labels = (query: string) => searchPlaces(places, query).map(formatPlace);
+
+describe('formatPlace', () => {
+  it('names the region between town and country', () => {
+    expect(labels('springfield, us').slice(0, 3)).toEqual([
+      'Springfield, Missouri, United States',
+      'Springfield, Massachusetts, United States',
+      'Springfield, Illinois, United States'
+    ]);
+  });
+
+  it('tells same-named towns in one country apart', () => {
+    for (const query of ['springfield, us', 'portland, us', 'dallas, us']) {
+      const found = labels(query);
+      expect(found.length).toBeGreaterThan(0);
+      expect(new Set(found).size).toBe(found.length);
+    }
+  });
+
+  it('leaves out a region that only repeats the name', () => {
+    expect(labels('tokyo')[0]).toBe('Tokyo, Japan');
+  });
+});
+
+describe('searchPlaces', () => {
+  it('ignores accents and punctuation', () => {
+    expect(labels('sao paulo')[0]).toBe('São Paulo, Brazil');
+    expect(labels('st johns, canada')[0]).toMatch(/^St\. John's, /);
+  });
+
+  it('matches later words and forgives a typo', () => {
+    expect(labels('york')).toContain('New York City, New York, United States');
+    expect(labels('barcelna')[0]).toMatch(/^Barcelona, /);
+  });
+
+  it('narrows by region as well as country', () => {
+    expect(labels('springfield, illinois')[0]).toBe('Springfield, Illinois, United States');
+    // Two letters are a country code, not the start of a region such as the Free State
+    expect(searchPlaces(places, 'paris, fr').every(place => place.country === 'FR')).toBe(true);
+  });
+
+  it('gives the biggest cities for an empty query', () => {
+    const biggest = searchPlaces(places, '', 5);
+    expect(biggest).toHaveLength(5);
+    for (let i = 1; i < biggest.length; i++) expect(biggest[i].population).toBeLessThanOrEqual(biggest[i - 1].population);
+  });
+});
+
+describe('findNearestPlace', () => {
+  it('finds the closest town and its distance', () => {
+    const nearest = findNearestPlace(places, 41.8781, -87.6298);
+    expect(nearest?.place.name).toMatch(/^Chicago/);
+    expect(nearest?.distance).toBeLessThan(5);
+  });
+});
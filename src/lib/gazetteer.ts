@@ -0,0 +1,176 @@
+// Offline place search over the bundled GeoNames list; see scripts/build-gazetteer.js.
+import gazetteerUrl from '@/assets/gazetteer.bin?url';
+import { fetchGzipped } from '@/lib/compressed-asset';
+
+export interface Place {
+  name: string;
+  // ISO 3166-1 alpha-2 code
+  country: string;
+  countryName: string;
+  // First-level division (state, province, region...), empty where GeoNames has none
+  region: string;
+  latitude: number;
+  longitude: number;
+  population: number;
+}
+
+// A place as loaded, with the folded text searchPlaces matches against
+export interface IndexedPlace extends Place {
+  // Folded name and its words, for matching
+  key: string;
+  words: string[];
+  countryKey: string;
+  regionKey: string;
+}
+
+const DEFAULT_LIMIT = 20;
+
+const regionNames = new Intl.DisplayNames(['en'], { type: 'region' });
+
+// Lower case without accents or punctuation, so "sao paulo" finds "São Paulo" and "st johns" finds "St. John's"
+export const foldText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+const getCountryName = (code: string): string => {
+  try {
+    return regionNames.of(code) ?? code;
+  } catch {
+    return code;
+  }
+};
+
+// "Springfield, Illinois, United States"; the region is left out where it only repeats the name, as in "Tokyo, Japan"
+export const formatPlace = (place: Place): string =>
+  place.region && foldText(place.region) !== foldText(place.name)
+    ? `${place.name}, ${place.region}, ${place.countryName}`
+    : `${place.name}, ${place.countryName}`;
+
+let gazetteerPromise: Promise<IndexedPlace[]> | null = null;
+
+const parseGazetteer = (text: string): IndexedPlace[] =>
+  text.split('\n').map(line => {
+    const [name, country, region, latitude, longitude, population] = line.split('\t');
+    const key = foldText(name);
+    const countryName = getCountryName(country);
+    return {
+      name,
+      country,
+      countryName,
+      region,
+      latitude: Number(latitude),
+      longitude: Number(longitude),
+      population: Number(population),
+      key,
+      words: key.split(' '),
+      countryKey: foldText(countryName),
+      regionKey: foldText(region)
+    };
+  });
+
+// The place list, fetched and inflated on first use and cached for the session
+export const loadGazetteer = (): Promise<IndexedPlace[]> => {
+  if (!gazetteerPromise) {
+    gazetteerPromise = fetchGzipped(gazetteerUrl)
+      .then(buffer => parseGazetteer(new TextDecoder().decode(buffer)))
+      .catch(error => {
+        gazetteerPromise = null;
+        throw error;
+      });
+  }
+  return gazetteerPromise;
+};
+
+// Fewest edits turning `query` into the start of `text` (Levenshtein with a free tail), or Infinity past `limit`
+const prefixEditDistance = (query: string, text: string, limit: number): number => {
+  const columns = Math.min(text.length, query.length + limit);
+  let previous = Array.from({ length: columns + 1 }, (_, j) => j);
+  for (let i = 1; i <= query.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= columns; j++) {
+      const cost = query[i - 1] === text[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return Infinity;
+    previous = current;
+  }
+  const best = Math.min(...previous);
+  return best > limit ? Infinity : best;
+};
+
+// One typo allowed from four letters, two from eight
+const allowedEdits = (query: string): number => (query.length >= 8 ? 2 : query.length >= 4 ? 1 : 0);
+
+// Rank: exact name, name prefix, word prefix ("york" → "New York"), then near misses by edit count
+const matchPlace = (place: IndexedPlace, query: string, edits: number): number => {
+  if (place.key === query) return 0;
+  if (place.key.startsWith(query)) return 1;
+  if (place.words.some(word => word.startsWith(query))) return 2;
+  if (edits === 0) return Infinity;
+  const distance = Math.min(
+    prefixEditDistance(query, place.key, edits),
+    ...place.words.slice(1).map(word => prefixEditDistance(query, word, edits))
+  );
+  return distance === Infinity ? Infinity : 2 + distance;
+};
+
+// Places matching `query`, best first and most populous first within a rank; "name, area" narrows by country code,
+// country name or region name, two letters being taken as a code only. An empty query gives the biggest cities.
+export const searchPlaces = (places: IndexedPlace[], query: string, limit = DEFAULT_LIMIT): IndexedPlace[] => {
+  const [namePart, areaPart = ''] = query.split(',');
+  const name = foldText(namePart);
+  const area = foldText(areaPart);
+  const inArea = (place: IndexedPlace) =>
+    !area ||
+    place.country.toLowerCase() === area ||
+    place.countryKey.startsWith(area) ||
+    (area.length > 2 && place.regionKey.startsWith(area));
+
+  if (!name) return places.filter(inArea).slice(0, limit);
+
+  const edits = allowedEdits(name);
+  const ranked: { place: IndexedPlace; rank: number }[] = [];
+  // The list is most populous first, so a stable sort on rank keeps population order within a rank
+  for (const place of places) {
+    if (!inArea(place)) continue;
+    const rank = matchPlace(place, name, edits);
+    if (rank !== Infinity) ranked.push({ place, rank });
+  }
+  return ranked
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, limit)
+    .map(({ place }) => place);
+};
+
+const EARTH_RADIUS_KM = 6371;
+const RAD = Math.PI / 180;
+
+// Great-circle distance in km (haversine)
+const distanceKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const a =
+    Math.sin(((lat2 - lat1) * RAD) / 2) ** 2 +
+    Math.cos(lat1 * RAD) * Math.cos(lat2 * RAD) * Math.sin(((lon2 - lon1) * RAD) / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// The closest listed place to a point and how far off it is, km
+export const findNearestPlace = (
+  places: Place[],
+  latitude: number,
+  longitude: number
+): { place: Place; distance: number } | null => {
+  let nearest: { place: Place; distance: number } | null = null;
+  for (const place of places) {
+    // Cheap latitude check first; a degree of latitude is 111 km
+    if (nearest && Math.abs(place.latitude - latitude) * 111 > nearest.distance) continue;
+    const distance = distanceKm(latitude, longitude, place.latitude, place.longitude);
+    if (!nearest || distance < nearest.distance) nearest = { place, distance };
+  }
+  return nearest;
+};
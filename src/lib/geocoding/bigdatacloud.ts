@@ -0,0 +1,35 @@
+// BigDataCloud's free client-side reverse geocoding (https://www.bigdatacloud.com), no key required.
+import type { Observer } from '@/lib/moon';
+import type { ReverseGeocoder } from './types';
+
+export const BIGDATACLOUD_URL = 'https://api.bigdatacloud.net';
+
+interface BigDataCloudResponse {
+  city?: string;
+  locality?: string;
+  principalSubdivision?: string;
+  countryName?: string;
+  description?: string;
+}
+
+export const createBigDataCloudGeocoder = (baseUrl = BIGDATACLOUD_URL): ReverseGeocoder => ({
+  name: 'BigDataCloud',
+  reverseGeocode: async ({ latitude, longitude }: Observer, signal?: AbortSignal) => {
+    const params = new URLSearchParams({
+      latitude: String(latitude),
+      longitude: String(longitude),
+      localityLanguage: 'en'
+    });
+    const response = await fetch(`${baseUrl}/data/reverse-geocode-client?${params}`, { signal });
+    if (!response.ok) {
+      // A proxy or gateway in the way may answer with an HTML page rather than the service's JSON
+      const reason = await response.json().then((body: BigDataCloudResponse) => body.description, () => undefined);
+      throw new Error(`Geocoding error: ${reason ?? (response.statusText || `HTTP ${response.status}`)}`);
+    }
+    const data: BigDataCloudResponse = await response.json();
+
+    const name = data.city || data.locality || data.principalSubdivision;
+    if (!name) throw new Error('Geocoding error: no place name here');
+    return name;
+  }
+});
@@ -0,0 +1,173 @@
+import { readFileSync } from 'node:fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  BIGDATACLOUD_URL,
+  createBigDataCloudGeocoder,
+  createNominatimGeocoder,
+  createSelfHostedGeocoder,
+  reverseGeocode
+} from '.';
+
+const GAZETTEER = readFileSync(new URL('../../assets/gazetteer.bin', import.meta.url));
+const CACHE_KEY = 'caniseethemoon:place-names';
+
+const EXETER = { latitude: 50.7236, longitude: -3.5275 };
+// The bundled gazetteer's label, which carries the region
+const OFFLINE_NAME = 'Exeter, England, United Kingdom';
+// Mid-Pacific, hundreds of kilometres from any town in the gazetteer
+const OPEN_OCEAN = { latitude: -30, longitude: -140 };
+
+// Enough of localStorage for the name cache
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key)
+  };
+};
+
+const readCache = (): Record<string, string> => JSON.parse(localStorage.getItem(CACHE_KEY) ?? '{}');
+
+// The service answers with `service`; anything else fetched is the bundled gazetteer
+const stubFetch = (service: (url: URL, signal?: AbortSignal) => Promise<Response>) => {
+  const fetch = vi.fn(async (input: string, init?: RequestInit) =>
+    input.startsWith(BIGDATACLOUD_URL) ? service(new URL(input), init?.signal) : new Response(GAZETTEER)
+  );
+  vi.stubGlobal('fetch', fetch);
+  return () => fetch.mock.calls.filter(([input]) => input.startsWith(BIGDATACLOUD_URL)).length;
+};
+
+const answer = (city: string) => async () => Response.json({ city });
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', createStorage());
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('reverseGeocode', () => {
+  it("caches the service's answer for points within about a kilometre", async () => {
+    const serviceCalls = stubFetch(answer('Exeter'));
+    expect(await reverseGeocode(EXETER)).toBe('Exeter');
+    expect(await reverseGeocode({ latitude: 50.7249, longitude: -3.5281 })).toBe('Exeter');
+    expect(serviceCalls()).toBe(1);
+    expect(readCache()).toEqual({ '50.72,-3.53': 'Exeter' });
+  });
+
+  it('drops the oldest names once 50 are cached', async () => {
+    stubFetch(async url => Response.json({ city: `Town ${url.searchParams.get('latitude')}` }));
+    for (let i = 0; i < 51; i++) await reverseGeocode({ latitude: i, longitude: 0 });
+    const keys = Object.keys(readCache());
+    expect(keys).toHaveLength(50);
+    expect(keys[0]).toBe('1.00,0.00');
+    expect(keys.at(-1)).toBe('50.00,0.00');
+  });
+
+  it('keeps a name that is asked for again among the newest', async () => {
+    localStorage.setItem(
+      CACHE_KEY,
+      JSON.stringify(Object.fromEntries(Array.from({ length: 50 }, (_, i) => [`${i}.00,0.00`, `Town ${i}`])))
+    );
+    stubFetch(answer('Exeter'));
+    await reverseGeocode(EXETER);
+    const keys = Object.keys(readCache());
+    expect(keys).toHaveLength(50);
+    expect(keys).not.toContain('0.00,0.00');
+    expect(keys.at(-1)).toBe('50.72,-3.53');
+  });
+
+  it('falls back to the offline gazetteer without caching its answer', async () => {
+    const serviceCalls = stubFetch(
+      async () => new Response('<html>Bad Gateway</html>', { status: 502, statusText: 'Bad Gateway' })
+    );
+    expect(await reverseGeocode(EXETER)).toBe(OFFLINE_NAME);
+    expect(readCache()).toEqual({});
+    await reverseGeocode(EXETER);
+    expect(serviceCalls()).toBe(2);
+  });
+
+  it('falls back to the coordinates when nothing has a name', async () => {
+    stubFetch(async () => Response.json({ description: 'Rate limited' }, { status: 429 }));
+    expect(await reverseGeocode(OPEN_OCEAN)).toBe('30.00°S 140.00°W');
+  });
+
+  it('gives up on a slow service after eight seconds', async () => {
+    const timeout = new AbortController();
+    const timeoutSpy = vi.spyOn(AbortSignal, 'timeout').mockReturnValue(timeout.signal);
+    stubFetch(
+      (_url, signal) =>
+        new Promise((_resolve, reject) => signal?.addEventListener('abort', () => reject(signal.reason)))
+    );
+    const name = reverseGeocode(EXETER);
+    expect(timeoutSpy).toHaveBeenCalledWith(8000);
+    timeout.abort(new DOMException('The operation timed out', 'TimeoutError'));
+    expect(await name).toBe(OFFLINE_NAME);
+  });
+
+  it("leaves the service's timing to a caller's signal", async () => {
+    const timeoutSpy = vi.spyOn(AbortSignal, 'timeout');
+    stubFetch(answer('Exeter'));
+    await reverseGeocode(EXETER, new AbortController().signal);
+    expect(timeoutSpy).not.toHaveBeenCalled();
+  });
+
+  it('never contacts a service when VITE_GEOCODER is offline', async () => {
+    vi.stubEnv('VITE_GEOCODER', 'offline');
+    vi.resetModules();
+    const serviceCalls = stubFetch(answer('Exeter'));
+    const geocoding = await import('.');
+    expect(await geocoding.reverseGeocode(EXETER)).toBe(OFFLINE_NAME);
+    expect(serviceCalls()).toBe(0);
+  });
+});
+
+describe('service adapters', () => {
+  const respond = (body: string, init: ResponseInit) =>
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(body, init)));
+
+  it('reports an HTML error page by its status rather than a parse error', async () => {
+    respond('<html><body>Bad Gateway</body></html>', { status: 502, statusText: 'Bad Gateway' });
+    await expect(createBigDataCloudGeocoder().reverseGeocode(EXETER)).rejects.toThrow('Geocoding error: Bad Gateway');
+    await expect(createNominatimGeocoder().reverseGeocode(EXETER)).rejects.toThrow('Geocoding error: Bad Gateway');
+    respond('', { status: 503 });
+    await expect(createBigDataCloudGeocoder().reverseGeocode(EXETER)).rejects.toThrow('Geocoding error: HTTP 503');
+  });
+
+  it("passes on the service's reason", async () => {
+    respond(JSON.stringify({ description: 'Latitude out of range' }), { status: 400 });
+    await expect(createBigDataCloudGeocoder().reverseGeocode(EXETER)).rejects.toThrow(
+      'Geocoding error: Latitude out of range'
+    );
+    // Nominatim has no address for the open sea but still answers 200
+    respond(JSON.stringify({ error: 'Unable to geocode' }), { status: 200 });
+    await expect(createNominatimGeocoder().reverseGeocode(OPEN_OCEAN)).rejects.toThrow(
+      'Geocoding error: Unable to geocode'
+    );
+  });
+
+  it('reads a self-hosted endpoint the same way', async () => {
+    vi.stubGlobal('window', { location: { href: 'https://moon.example/' } });
+    const geocoder = createSelfHostedGeocoder('/api/place-name');
+    respond('<html><body>Not Found</body></html>', { status: 404, statusText: 'Not Found' });
+    await expect(geocoder.reverseGeocode(EXETER)).rejects.toThrow('Geocoding error: Not Found');
+    respond(JSON.stringify({ error: 'Outside the service area' }), { status: 200 });
+    await expect(geocoder.reverseGeocode(EXETER)).rejects.toThrow('Geocoding error: Outside the service area');
+    respond(JSON.stringify({ name: 'Exeter' }), { status: 200 });
+    expect(await geocoder.reverseGeocode(EXETER)).toBe('Exeter');
+  });
+
+  it('names the town and country', async () => {
+    respond(JSON.stringify({ address: { city: 'Exeter', county: 'Devon', country: 'United Kingdom' } }), {
+      status: 200
+    });
+    expect(await createNominatimGeocoder().reverseGeocode(EXETER)).toBe('Exeter, United Kingdom');
+    respond(JSON.stringify({ city: '', locality: 'Exeter', countryName: 'United Kingdom' }), { status: 200 });
+    expect(await createBigDataCloudGeocoder().reverseGeocode(EXETER)).toBe('Exeter');
+  });
+});
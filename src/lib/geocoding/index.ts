@@ -0,0 +1,85 @@
+import { formatCoordinates } from '@/lib/coordinates';
+import type { Observer } from '@/lib/moon';
+import { BIGDATACLOUD_URL, createBigDataCloudGeocoder } from './bigdatacloud';
+import { createNominatimGeocoder, NOMINATIM_URL } from './nominatim';
+import { createOfflineGeocoder } from './offline';
+import { createSelfHostedGeocoder } from './self-hosted';
+import type { ReverseGeocoder } from './types';
+
+export * from './types';
+export * from './bigdatacloud';
+export * from './nominatim';
+export * from './self-hosted';
+export * from './offline';
+
+// Providers selectable with VITE_GEOCODER; 'offline' never leaves the device. VITE_GEOCODER_URL points the
+// BigDataCloud or Nominatim adapter at another server, and is required for 'self-hosted'.
+const PROVIDERS: Record<string, () => ReverseGeocoder | null> = {
+  bigdatacloud: () => createBigDataCloudGeocoder(import.meta.env.VITE_GEOCODER_URL || BIGDATACLOUD_URL),
+  nominatim: () => createNominatimGeocoder(import.meta.env.VITE_GEOCODER_URL || NOMINATIM_URL),
+  'self-hosted': () =>
+    import.meta.env.VITE_GEOCODER_URL ? createSelfHostedGeocoder(import.meta.env.VITE_GEOCODER_URL) : null,
+  offline: () => null
+};
+
+export const getReverseGeocoder = (): ReverseGeocoder | null => {
+  const create = PROVIDERS[import.meta.env.VITE_GEOCODER || 'bigdatacloud'] ?? PROVIDERS.bigdatacloud;
+  return create();
+};
+
+const CACHE_KEY = 'caniseethemoon:place-names';
+const CACHE_SIZE = 50;
+// Two decimals is about a kilometre: near enough to share a town name
+const CACHE_PRECISION = 2;
+// A service slower than this gives way to the offline answer
+const PROVIDER_TIMEOUT_MS = 8000;
+
+const provider = getReverseGeocoder();
+const offline = createOfflineGeocoder();
+
+const cacheKey = ({ latitude, longitude }: Observer): string =>
+  `${latitude.toFixed(CACHE_PRECISION)},${longitude.toFixed(CACHE_PRECISION)}`;
+
+const readCache = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(CACHE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Oldest entries go first once the cache is full
+const writeCache = (key: string, name: string) => {
+  try {
+    const entries = Object.entries(readCache()).filter(([k]) => k !== key);
+    const kept = Object.fromEntries([...entries, [key, name]].slice(-CACHE_SIZE));
+    localStorage.setItem(CACHE_KEY, JSON.stringify(kept));
+  } catch (error) {
+    console.error('Failed to cache place name:', error);
+  }
+};
+
+// A name for the point that is always something: a cached answer, the configured service, the nearest town in
+// the offline gazetteer or, failing all of those, the coordinates themselves. Only service answers are cached,
+// so a name found offline is upgraded once the network is back. Without a `signal` the service gets
+// PROVIDER_TIMEOUT_MS to answer.
+export const reverseGeocode = async (point: Observer, signal?: AbortSignal): Promise<string> => {
+  const key = cacheKey(point);
+  const cached = readCache()[key];
+  if (cached) return cached;
+
+  if (provider) {
+    try {
+      const name = await provider.reverseGeocode(point, signal ?? AbortSignal.timeout(PROVIDER_TIMEOUT_MS));
+      writeCache(key, name);
+      return name;
+    } catch (error) {
+      console.error(`${provider.name} reverse geocoding failed:`, error);
+    }
+  }
+  try {
+    return await offline.reverseGeocode(point, signal);
+  } catch {
+    return formatCoordinates(point, 2);
+  }
+};
@@ -0,0 +1,39 @@
+// OpenStreetMap's Nominatim (https://nominatim.org). The public server allows one request a second and asks
+// heavy users to run their own, so point VITE_GEOCODER_URL at a private instance for anything busy.
+import type { Observer } from '@/lib/moon';
+import type { ReverseGeocoder } from './types';
+
+export const NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+
+interface NominatimResponse {
+  address?: Partial<Record<'city' | 'town' | 'village' | 'hamlet' | 'municipality' | 'county' | 'state' | 'country', string>>;
+  error?: string;
+}
+
+export const createNominatimGeocoder = (baseUrl = NOMINATIM_URL): ReverseGeocoder => ({
+  name: 'OpenStreetMap Nominatim',
+  reverseGeocode: async ({ latitude, longitude }: Observer, signal?: AbortSignal) => {
+    const params = new URLSearchParams({
+      lat: String(latitude),
+      lon: String(longitude),
+      format: 'jsonv2',
+      // Town level; finer zooms return street addresses
+      zoom: '10',
+      'accept-language': 'en'
+    });
+    const response = await fetch(`${baseUrl}/reverse?${params}`, { signal });
+    if (!response.ok) {
+      // A proxy or gateway in the way may answer with an HTML page rather than the service's JSON
+      const reason = await response.json().then((body: NominatimResponse) => body.error, () => undefined);
+      throw new Error(`Geocoding error: ${reason ?? (response.statusText || `HTTP ${response.status}`)}`);
+    }
+    const data: NominatimResponse = await response.json();
+    // Points out at sea come back as 200 with an error
+    if (data.error) throw new Error(`Geocoding error: ${data.error}`);
+
+    const address = data.address ?? {};
+    const name = address.city || address.town || address.village || address.hamlet || address.municipality || address.county;
+    if (!name) throw new Error('Geocoding error: no place name here');
+    return address.country ? `${name}, ${address.country}` : name;
+  }
+});
@@ -0,0 +1,19 @@
+// Nearest town in the bundled gazetteer; needs no network once the app has loaded.
+import type { Observer } from '@/lib/moon';
+import { findNearestPlace, formatPlace, loadGazetteer } from '@/lib/gazetteer';
+import type { ReverseGeocoder } from './types';
+
+// Further than this from any town of 15,000 people, say how far
+const NEAR_KM = 15;
+// ...and beyond this there is nothing useful to name
+const MAX_KM = 300;
+
+export const createOfflineGeocoder = (): ReverseGeocoder => ({
+  name: 'GeoNames (offline)',
+  reverseGeocode: async ({ latitude, longitude }: Observer) => {
+    const nearest = findNearestPlace(await loadGazetteer(), latitude, longitude);
+    if (!nearest || nearest.distance > MAX_KM) throw new Error('Geocoding error: no town nearby');
+    const name = formatPlace(nearest.place);
+    return nearest.distance > NEAR_KM ? `${Math.round(nearest.distance)} km from ${name}` : name;
+  }
+});
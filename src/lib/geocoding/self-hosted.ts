@@ -0,0 +1,25 @@
+// Any endpoint of your own answering GET <url>?lat=<latitude>&lon=<longitude> with JSON { "name": "..." },
+// for deployments that cannot send visitors' positions to a third party.
+import type { Observer } from '@/lib/moon';
+import type { ReverseGeocoder } from './types';
+
+interface SelfHostedResponse {
+  name?: string;
+  error?: string;
+}
+
+export const createSelfHostedGeocoder = (url: string): ReverseGeocoder => ({
+  name: new URL(url, window.location.href).host,
+  reverseGeocode: async ({ latitude, longitude }: Observer, signal?: AbortSignal) => {
+    const params = new URLSearchParams({ lat: String(latitude), lon: String(longitude) });
+    const response = await fetch(`${url}?${params}`, { signal });
+    if (!response.ok) {
+      // A proxy or gateway in the way may answer with an HTML page rather than the endpoint's JSON
+      const reason = await response.json().then((body: SelfHostedResponse) => body.error, () => undefined);
+      throw new Error(`Geocoding error: ${reason ?? (response.statusText || `HTTP ${response.status}`)}`);
+    }
+    const data: SelfHostedResponse = await response.json();
+    if (!data.name) throw new Error(`Geocoding error: ${data.error ?? 'no place name here'}`);
+    return data.name;
+  }
+});
@@ -0,0 +1,9 @@
+import type { Observer } from '@/lib/moon';
+
+export interface ReverseGeocoder {
+  // Shown as the data credit
+  name: string;
+  // A short place name for the point, e.g. "Exeter, United Kingdom"; rejects when the service cannot be reached
+  // or has no name for it
+  reverseGeocode: (point: Observer, signal?: AbortSignal) => Promise<string>;
+}
@@ -0,0 +1,30 @@
+// Coarse artificial sky brightness from Walker's law over GeoNames towns; see scripts/build-sky-brightness.js.
+import gridUrl from '@/assets/sky-brightness.bin?url';
+import { fetchGzipped } from '@/lib/compressed-asset';
+
+const CELL = 0.25;
+const COLUMNS = 360 / CELL;
+const ROWS = 180 / CELL;
+const SCALE = 50;
+
+let gridPromise: Promise<Uint8Array> | null = null;
+
+// The grid, fetched and inflated on first use and cached for the session
+export const loadLightPollutionGrid = (): Promise<Uint8Array> => {
+  if (!gridPromise) {
+    gridPromise = fetchGzipped(gridUrl)
+      .then(buffer => new Uint8Array(buffer))
+      .catch(error => {
+        gridPromise = null;
+        throw error;
+      });
+  }
+  return gridPromise;
+};
+
+// Artificial zenith sky brightness as a multiple of the natural sky at a location
+export const getArtificialBrightness = (grid: Uint8Array, latitude: number, longitude: number): number => {
+  const row = Math.min(ROWS - 1, Math.max(0, Math.floor((90 - latitude) / CELL)));
+  const column = Math.min(COLUMNS - 1, Math.max(0, Math.floor((longitude + 180) / CELL)));
+  return 10 ** (grid[row * COLUMNS + column] / SCALE) - 1;
+};
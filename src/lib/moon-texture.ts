@@ -0,0 +1,35 @@
+// Equirectangular lunar albedo map, 256×128, centred on selenographic longitude 0.
+// From CesiumJS (Apache License 2.0), itself derived from NASA Clementine imagery.
+import textureUrl from '@/assets/moon-albedo.jpg';
+
+// Shown wherever the texture is drawn, as the Apache licence asks; see NOTICE
+export const MOON_TEXTURE_CREDIT = 'Moon texture from CesiumJS (Apache License 2.0), based on NASA Clementine imagery';
+
+let texturePromise: Promise<ImageData> | null = null;
+
+// Pixel data of the albedo map, decoded on first use and cached for the session
+export const loadMoonTexture = (): Promise<ImageData> => {
+  if (!texturePromise) {
+    texturePromise = new Promise<ImageData>((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = image.width;
+        canvas.height = image.height;
+        const context = canvas.getContext('2d');
+        if (!context) {
+          reject(new Error('Canvas is not supported'));
+          return;
+        }
+        context.drawImage(image, 0, 0);
+        resolve(context.getImageData(0, 0, image.width, image.height));
+      };
+      image.onerror = () => reject(new Error('Failed to load the Moon texture'));
+      image.src = textureUrl;
+    }).catch(error => {
+      texturePromise = null;
+      throw error;
+    });
+  }
+  return texturePromise;
+};
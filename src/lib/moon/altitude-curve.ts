@@ -0,0 +1,60 @@
+// Sampled altitude curves of the Moon and Sun over a window, for charting.
+import { findMoonCulminations, findMoonHorizonCrossings, getMoonHorizonPosition } from './ephemeris';
+import { getSunHorizonPosition } from './sun';
+import type { EphemerisOptions, Observer } from './types';
+
+export interface AltitudeSample {
+  // Milliseconds since the epoch
+  time: number;
+  // Apparent altitudes of the centres, degrees
+  moon: number;
+  sun: number;
+}
+
+export type AltitudeEventKind = 'rise' | 'transit' | 'set';
+
+export interface AltitudeEvent {
+  kind: AltitudeEventKind;
+  date: Date;
+  altitude: number;
+}
+
+export interface AltitudeCurve {
+  samples: AltitudeSample[];
+  // Moonrises, upper culminations and moonsets inside the window, in order
+  events: AltitudeEvent[];
+}
+
+const SAMPLE_STEP_MS = 10 * 60 * 1000;
+
+export const getAltitudeCurve = (
+  start: Date,
+  end: Date,
+  observer: Observer,
+  options: EphemerisOptions = {},
+  stepMs = SAMPLE_STEP_MS
+): AltitudeCurve => {
+  const samples: AltitudeSample[] = [];
+  for (let time = start.getTime(); time <= end.getTime(); time += stepMs) {
+    const date = new Date(time);
+    samples.push({
+      time,
+      moon: getMoonHorizonPosition(date, observer, options).altitude,
+      sun: getSunHorizonPosition(date, observer, options).altitude
+    });
+  }
+
+  const horizon = findMoonHorizonCrossings(start, end, observer, options).map(({ date, rising }) => ({
+    kind: rising ? ('rise' as const) : ('set' as const),
+    date,
+    altitude: getMoonHorizonPosition(date, observer, options).altitude
+  }));
+  const transits = findMoonCulminations(start, end, observer, options)
+    .filter(({ upper }) => upper)
+    .map(({ date, altitude }) => ({ kind: 'transit' as const, date, altitude }));
+
+  return {
+    samples,
+    events: [...horizon, ...transits].sort((a, b) => a.date.getTime() - b.date.getTime())
+  };
+};
@@ -0,0 +1,147 @@
+// Shared astronomical helpers: time scales, angles, nutation and coordinate transforms.
+// Formulae follow Meeus, "Astronomical Algorithms" (2nd ed.) unless noted otherwise.
+
+export const RAD = Math.PI / 180;
+export const DEG = 180 / Math.PI;
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const J2000 = 2451545.0;
+export const AU_KM = 149597870.7;
+export const EARTH_RADIUS_KM = 6378.14;
+
+export const sind = (x: number) => Math.sin(x * RAD);
+export const cosd = (x: number) => Math.cos(x * RAD);
+export const tand = (x: number) => Math.tan(x * RAD);
+export const asind = (x: number) => Math.asin(Math.max(-1, Math.min(1, x))) * DEG;
+export const acosd = (x: number) => Math.acos(Math.max(-1, Math.min(1, x))) * DEG;
+export const atan2d = (y: number, x: number) => Math.atan2(y, x) * DEG;
+
+// Wrap an angle into [0, 360)
+export const normalizeDegrees = (x: number): number => {
+  const r = x % 360;
+  return r < 0 ? r + 360 : r;
+};
+
+// Wrap an angle into [-180, 180)
+export const wrapDegrees = (x: number): number => normalizeDegrees(x + 180) - 180;
+
+export const toJulianDay = (date: Date): number => date.getTime() / DAY_MS + 2440587.5;
+
+export const fromJulianDay = (jd: number): Date => new Date(Math.round((jd - 2440587.5) * DAY_MS));
+
+// TT − UT in seconds (Espenak & Meeus polynomial fits)
+export const deltaT = (date: Date): number => {
+  const y = date.getUTCFullYear() + (date.getUTCMonth() + 0.5) / 12;
+  let t: number;
+
+  if (y >= 2050 && y < 2150) {
+    return -20 + 32 * ((y - 1820) / 100) ** 2 - 0.5628 * (2150 - y);
+  }
+  if (y >= 2005 && y < 2050) {
+    t = y - 2000;
+    return 62.92 + 0.32217 * t + 0.005589 * t * t;
+  }
+  if (y >= 1986 && y < 2005) {
+    t = y - 2000;
+    return 63.86 + 0.3345 * t - 0.060374 * t ** 2 + 0.0017275 * t ** 3 + 0.000651814 * t ** 4 + 0.00002373599 * t ** 5;
+  }
+  if (y >= 1961 && y < 1986) {
+    t = y - 1975;
+    return 45.45 + 1.067 * t - t ** 2 / 260 - t ** 3 / 718;
+  }
+  if (y >= 1941 && y < 1961) {
+    t = y - 1950;
+    return 29.07 + 0.407 * t - t ** 2 / 233 + t ** 3 / 2547;
+  }
+  if (y >= 1920 && y < 1941) {
+    t = y - 1920;
+    return 21.2 + 0.84493 * t - 0.0761 * t ** 2 + 0.0020936 * t ** 3;
+  }
+  if (y >= 1900 && y < 1920) {
+    t = y - 1900;
+    return -2.79 + 1.494119 * t - 0.0598939 * t ** 2 + 0.0061966 * t ** 3 - 0.000197 * t ** 4;
+  }
+
+  const u = (y - 1820) / 100;
+  return -20 + 32 * u * u;
+};
+
+// Julian Ephemeris Day (Terrestrial Time) for a UT instant
+export const toJulianEphemerisDay = (date: Date): number => toJulianDay(date) + deltaT(date) / 86400;
+
+// Convert a JDE back to a UT instant
+export const fromJulianEphemerisDay = (jde: number): Date => {
+  const approx = fromJulianDay(jde);
+  return fromJulianDay(jde - deltaT(approx) / 86400);
+};
+
+export const julianCenturies = (jd: number): number => (jd - J2000) / 36525;
+
+export interface Nutation {
+  // Degrees
+  longitude: number;
+  obliquity: number;
+}
+
+// Nutation in longitude and obliquity, accurate to about 0.5"
+export const nutation = (T: number): Nutation => {
+  const omega = 125.04452 - 1934.136261 * T;
+  const L = 280.4665 + 36000.7698 * T;
+  const Lp = 218.3165 + 481267.8813 * T;
+
+  const dPsi = -17.2 * sind(omega) - 1.32 * sind(2 * L) - 0.23 * sind(2 * Lp) + 0.21 * sind(2 * omega);
+  const dEps = 9.2 * cosd(omega) + 0.57 * cosd(2 * L) + 0.1 * cosd(2 * Lp) - 0.09 * cosd(2 * omega);
+
+  return { longitude: dPsi / 3600, obliquity: dEps / 3600 };
+};
+
+export const meanObliquity = (T: number): number => {
+  const seconds = 21.448 - 46.815 * T - 0.00059 * T * T + 0.001813 * T * T * T;
+  return 23 + 26 / 60 + seconds / 3600;
+};
+
+export const trueObliquity = (T: number): number => meanObliquity(T) + nutation(T).obliquity;
+
+export interface Equatorial {
+  // Degrees
+  rightAscension: number;
+  declination: number;
+}
+
+export const eclipticToEquatorial = (longitude: number, latitude: number, obliquity: number): Equatorial => {
+  const rightAscension = normalizeDegrees(
+    atan2d(sind(longitude) * cosd(obliquity) - tand(latitude) * sind(obliquity), cosd(longitude))
+  );
+  const declination = asind(sind(latitude) * cosd(obliquity) + cosd(latitude) * sind(obliquity) * sind(longitude));
+  return { rightAscension, declination };
+};
+
+// Greenwich apparent sidereal time in degrees
+export const greenwichSiderealTime = (date: Date): number => {
+  const jd = toJulianDay(date);
+  const T = julianCenturies(jd);
+  const mean = 280.46061837 + 360.98564736629 * (jd - J2000) + 0.000387933 * T * T - (T * T * T) / 38710000;
+  const { longitude } = nutation(T);
+  return normalizeDegrees(mean + longitude * cosd(meanObliquity(T)));
+};
+
+export const localSiderealTime = (date: Date, longitude: number): number =>
+  normalizeDegrees(greenwichSiderealTime(date) + longitude);
+
+export interface Horizontal {
+  // Degrees; azimuth measured from north through east
+  altitude: number;
+  azimuth: number;
+}
+
+export const equatorialToHorizontal = (hourAngle: number, declination: number, latitude: number): Horizontal => {
+  const altitude = asind(sind(latitude) * sind(declination) + cosd(latitude) * cosd(declination) * cosd(hourAngle));
+  const azimuth = normalizeDegrees(
+    atan2d(sind(hourAngle), cosd(hourAngle) * sind(latitude) - tand(declination) * cosd(latitude)) + 180
+  );
+  return { altitude, azimuth };
+};
+
+// Great-circle separation of two points given in degrees
+export const angularSeparation = (ra1: number, dec1: number, ra2: number, dec2: number): number =>
+  acosd(sind(dec1) * sind(dec2) + cosd(dec1) * cosd(dec2) * cosd(ra1 - ra2));
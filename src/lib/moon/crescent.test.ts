@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { getCrescentVisibility } from './crescent';
+import type { Observer } from './types';
+
+const MECCA: Observer = { latitude: 21.4225, longitude: 39.8262 };
+
+describe('getCrescentVisibility', () => {
+  // New moon 2025-03-29 10:58 UT; the first evening after it
+  it('grades a day-old crescent', () => {
+    const crescent = getCrescentVisibility(new Date('2025-03-30T12:00:00Z'), MECCA);
+    expect(crescent.status).toBe('computed');
+    expect(crescent.moonAge).toBeGreaterThan(24);
+    expect(crescent.moonAge).toBeLessThan(48);
+    expect(crescent.yallop).not.toBeNull();
+    expect(crescent.odeh).not.toBeNull();
+  });
+
+  it('reports the Moon setting before the Sun on the evening before conjunction', () => {
+    expect(getCrescentVisibility(new Date('2025-03-28T12:00:00Z'), MECCA).status).toBe('moon-sets-first');
+  });
+
+  it('leaves a week-old Moon ungraded', () => {
+    const crescent = getCrescentVisibility(new Date('2025-04-04T12:00:00Z'), MECCA);
+    expect(crescent.status).toBe('not-young');
+    expect(crescent.yallop).toBeNull();
+    expect(crescent.odeh).toBeNull();
+  });
+});
@@ -0,0 +1,288 @@
+// Young-crescent first-sighting predictions after Yallop (NAO TN 69, 1997) and Odeh (Exp. Astron. 18, 2004).
+import {
+  acosd,
+  angularSeparation,
+  asind,
+  cosd,
+  DAY_MS,
+  equatorialToHorizontal,
+  localSiderealTime,
+  normalizeDegrees,
+  sind,
+  wrapDegrees
+} from './astro';
+import { MOON_RADIUS_KM } from './ephemeris';
+import { getMoonPosition } from './moon-position';
+import { findPreviousPhase } from './phase-events';
+import { getHorizonDip, refractAltitude } from './refraction';
+import { findCrossings, findNextRiseSet } from './rise-set';
+import { getSunPosition, SUN_RADIUS_KM } from './sun';
+import { getTopocentricPosition } from './topocentric';
+import type { GeocentricPosition, Observer } from './types';
+
+export type YallopClass = 'A' | 'B' | 'C' | 'D' | 'E' | 'F';
+export type OdehZone = 'A' | 'B' | 'C' | 'D';
+
+export type CrescentStatus = 'computed' | 'no-sunset' | 'moon-sets-first' | 'moon-stays-up' | 'not-young';
+
+export const YALLOP_DESCRIPTIONS: Record<YallopClass, string> = {
+  A: 'Easily visible to the naked eye',
+  B: 'Visible under perfect conditions',
+  C: 'May need optical aid to find the crescent',
+  D: 'Will need optical aid to find the crescent',
+  E: 'Not visible with a telescope',
+  F: 'Not visible, below the Danjon limit'
+};
+
+export const ODEH_DESCRIPTIONS: Record<OdehZone, string> = {
+  A: 'Visible by naked eye',
+  B: 'Visible by optical aid, could be seen by naked eye',
+  C: 'Visible by optical aid only',
+  D: 'Not visible even with optical aid'
+};
+
+export const ODEH_LABELS: Record<OdehZone, string> = {
+  A: 'Naked eye',
+  B: 'Optical aid',
+  C: 'Optical aid only',
+  D: 'Not visible'
+};
+
+export interface CrescentGeometry {
+  // Topocentric Moon–Sun separation, degrees
+  arcOfLight: number;
+  // Airless Moon − Sun altitude difference, degrees; geocentric (Yallop) and topocentric (Odeh)
+  arcOfVision: number;
+  topocentricArcOfVision: number;
+  // Sun azimuth − Moon azimuth, degrees
+  relativeAzimuth: number;
+  // Topocentric crescent width, arcminutes
+  width: number;
+  moonAltitude: number;
+  moonAzimuth: number;
+}
+
+export interface CrescentVisibility {
+  status: CrescentStatus;
+  sunset: Date | null;
+  moonset: Date | null;
+  // Yallop's best time, sunset + 4/9 of the lag
+  bestTime: Date | null;
+  // Most recent new moon before sunset
+  conjunction: Date;
+  // Hours from conjunction to sunset
+  moonAge: number | null;
+  // Minutes from sunset to moonset
+  lag: number | null;
+  geometry: CrescentGeometry | null;
+  yallop: { q: number; class: YallopClass } | null;
+  odeh: { v: number; zone: OdehZone } | null;
+}
+
+export interface CrescentMapCell {
+  latitude: number;
+  longitude: number;
+  yallop: YallopClass | null;
+  odeh: OdehZone | null;
+}
+
+interface PositionSource {
+  sun: (date: Date) => GeocentricPosition;
+  moon: (date: Date) => GeocentricPosition;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const SAMPLE_STEP_MS = 10 * 60 * 1000;
+// Window either side of the estimated sunset in which to look for the exact crossing
+const SUNSET_WINDOW_MS = 90 * 60 * 1000;
+// Moonsets later than this after sunset belong to an old Moon, not a young crescent
+const MAX_LAG_DAYS = 0.5;
+// Both criteria were fitted to first sightings; past these the Moon is plainly visible and they say nothing
+const MAX_CRESCENT_AGE_HOURS = 72;
+const MAX_CRESCENT_ELONGATION = 25;
+
+const DIRECT_SOURCE: PositionSource = { sun: getSunPosition, moon: getMoonPosition };
+
+const interpolate = (a: GeocentricPosition, b: GeocentricPosition, f: number): GeocentricPosition => ({
+  longitude: normalizeDegrees(a.longitude + wrapDegrees(b.longitude - a.longitude) * f),
+  latitude: a.latitude + (b.latitude - a.latitude) * f,
+  distance: a.distance + (b.distance - a.distance) * f,
+  rightAscension: normalizeDegrees(a.rightAscension + wrapDegrees(b.rightAscension - a.rightAscension) * f),
+  declination: a.declination + (b.declination - a.declination) * f
+});
+
+// Positions sampled every 10 minutes and interpolated; ample for map-resolution work
+const createSampledSource = (start: Date, end: Date): PositionSource => {
+  const sample = (fn: (date: Date) => GeocentricPosition) => {
+    const samples: GeocentricPosition[] = [];
+    for (let t = start.getTime(); t <= end.getTime() + SAMPLE_STEP_MS; t += SAMPLE_STEP_MS) {
+      samples.push(fn(new Date(t)));
+    }
+    return (date: Date) => {
+      const x = (date.getTime() - start.getTime()) / SAMPLE_STEP_MS;
+      const i = Math.max(0, Math.min(samples.length - 2, Math.floor(x)));
+      return interpolate(samples[i], samples[i + 1], x - i);
+    };
+  };
+  return { sun: sample(getSunPosition), moon: sample(getMoonPosition) };
+};
+
+// 12:00 local mean solar time on the observer's calendar day containing `date`
+const getLocalNoon = (date: Date, longitude: number): Date => {
+  const offsetMs = (longitude / 15) * HOUR_MS;
+  const local = new Date(date.getTime() + offsetMs);
+  return new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate(), 12) - offsetMs);
+};
+
+const getLimbClearance = (
+  date: Date,
+  observer: Observer,
+  position: GeocentricPosition,
+  radiusKm: number
+): number => {
+  const topo = getTopocentricPosition(date, observer, position);
+  const upperLimb = topo.altitude + asind(radiusKm / topo.distance);
+  return refractAltitude(upperLimb) + getHorizonDip(observer.elevation);
+};
+
+const findSunset = (noon: Date, observer: Observer, source: PositionSource): Date | null => {
+  const sun = source.sun(noon);
+  const h0 = -0.833 - getHorizonDip(observer.elevation);
+  const cosH0 =
+    (sind(h0) - sind(observer.latitude) * sind(sun.declination)) /
+    (cosd(observer.latitude) * cosd(sun.declination));
+  if (cosH0 < -1 || cosH0 > 1) return null;
+
+  const estimate = noon.getTime() + (acosd(cosH0) / 15) * HOUR_MS;
+  const clearance = (d: Date) => getLimbClearance(d, observer, source.sun(d), SUN_RADIUS_KM);
+  const crossing = findCrossings(
+    clearance,
+    new Date(estimate - SUNSET_WINDOW_MS),
+    new Date(estimate + SUNSET_WINDOW_MS)
+  ).find(c => !c.rising);
+  return crossing?.date ?? null;
+};
+
+const getYallopClass = (q: number): YallopClass => {
+  if (q > 0.216) return 'A';
+  if (q > -0.014) return 'B';
+  if (q > -0.16) return 'C';
+  if (q > -0.232) return 'D';
+  if (q > -0.293) return 'E';
+  return 'F';
+};
+
+const getOdehZone = (v: number): OdehZone => {
+  if (v >= 5.65) return 'A';
+  if (v >= 2) return 'B';
+  if (v >= -0.96) return 'C';
+  return 'D';
+};
+
+// Width-dependent part of the minimum arc of vision for a crescent `w` arcminutes wide (shared by both criteria)
+const widthPolynomial = (w: number): number => 0.7319 * w * w - 6.3226 * w - 0.1018 * w * w * w;
+
+const getCrescentGeometry = (date: Date, observer: Observer, source: PositionSource): CrescentGeometry => {
+  const sun = source.sun(date);
+  const moon = source.moon(date);
+  const sunTopo = getTopocentricPosition(date, observer, sun);
+  const moonTopo = getTopocentricPosition(date, observer, moon);
+
+  const lst = localSiderealTime(date, observer.longitude);
+  const geocentricAltitude = (p: GeocentricPosition) =>
+    equatorialToHorizontal(lst - p.rightAscension, p.declination, observer.latitude).altitude;
+
+  const arcOfLight = angularSeparation(
+    moonTopo.rightAscension,
+    moonTopo.declination,
+    sunTopo.rightAscension,
+    sunTopo.declination
+  );
+  const semiDiameter = asind(MOON_RADIUS_KM / moonTopo.distance) * 60;
+
+  return {
+    arcOfLight,
+    arcOfVision: geocentricAltitude(moon) - geocentricAltitude(sun),
+    topocentricArcOfVision: moonTopo.altitude - sunTopo.altitude,
+    relativeAzimuth: wrapDegrees(sunTopo.azimuth - moonTopo.azimuth),
+    width: semiDiameter * (1 - cosd(arcOfLight)),
+    moonAltitude: moonTopo.altitude,
+    moonAzimuth: moonTopo.azimuth
+  };
+};
+
+const computeCrescentVisibility = (noon: Date, observer: Observer, source: PositionSource): CrescentVisibility => {
+  const sunset = findSunset(noon, observer, source);
+  const conjunction = findPreviousPhase(sunset ?? noon, 'New Moon');
+  const empty = { moonset: null, bestTime: null, lag: null, geometry: null, yallop: null, odeh: null };
+
+  if (!sunset) {
+    return { status: 'no-sunset', sunset, conjunction, moonAge: null, ...empty };
+  }
+
+  const moonAge = (sunset.getTime() - conjunction.getTime()) / HOUR_MS;
+  const clearance = (d: Date) => getLimbClearance(d, observer, source.moon(d), MOON_RADIUS_KM);
+  if (clearance(sunset) <= 0) {
+    return { status: 'moon-sets-first', sunset, conjunction, moonAge, ...empty };
+  }
+
+  const sun = source.sun(sunset);
+  const moon = source.moon(sunset);
+  const elongation = angularSeparation(moon.rightAscension, moon.declination, sun.rightAscension, sun.declination);
+  if (moonAge > MAX_CRESCENT_AGE_HOURS || elongation > MAX_CRESCENT_ELONGATION) {
+    return { status: 'not-young', sunset, conjunction, moonAge, ...empty };
+  }
+
+  const moonset = findNextRiseSet(clearance, sunset, MAX_LAG_DAYS).set;
+  if (!moonset) {
+    return { status: 'moon-stays-up', sunset, conjunction, moonAge, ...empty };
+  }
+
+  const lagMs = moonset.getTime() - sunset.getTime();
+  const bestTime = new Date(sunset.getTime() + (lagMs * 4) / 9);
+  const geometry = getCrescentGeometry(bestTime, observer, source);
+  const q = (geometry.arcOfVision - (11.8371 + widthPolynomial(geometry.width))) / 10;
+  const v = geometry.topocentricArcOfVision - (7.1651 + widthPolynomial(geometry.width));
+
+  return {
+    status: 'computed',
+    sunset,
+    moonset,
+    bestTime,
+    conjunction,
+    moonAge,
+    lag: lagMs / 60000,
+    geometry,
+    yallop: { q, class: getYallopClass(q) },
+    odeh: { v, zone: getOdehZone(v) }
+  };
+};
+
+// Crescent visibility on the evening of the observer's local calendar day containing `date`
+export const getCrescentVisibility = (date: Date, observer: Observer): CrescentVisibility =>
+  computeCrescentVisibility(getLocalNoon(date, observer.longitude), observer, DIRECT_SOURCE);
+
+// Yallop and Odeh verdicts across the globe for the evening of `date`'s UTC calendar day
+export const getCrescentVisibilityMap = (
+  date: Date,
+  { latitudeStep = 4, longitudeStep = 4, maxLatitude = 60 } = {}
+): CrescentMapCell[] => {
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), 12);
+  const source = createSampledSource(new Date(day - DAY_MS), new Date(day + 2 * DAY_MS));
+  const cells: CrescentMapCell[] = [];
+
+  for (let latitude = -maxLatitude; latitude <= maxLatitude; latitude += latitudeStep) {
+    for (let longitude = -180 + longitudeStep / 2; longitude < 180; longitude += longitudeStep) {
+      const noon = new Date(day - (longitude / 15) * HOUR_MS);
+      const result = computeCrescentVisibility(noon, { latitude, longitude }, source);
+      cells.push({
+        latitude,
+        longitude,
+        yallop: result.yallop?.class ?? null,
+        odeh: result.odeh?.zone ?? null
+      });
+    }
+  }
+
+  return cells;
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { getDarkSkyNights } from './dark-sky';
+import type { Observer } from './types';
+
+const DALLAS: Observer = { latitude: 32.7767, longitude: -96.797 };
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('getDarkSkyNights', () => {
+  it('looks ahead to the coming night once dawn has passed', () => {
+    // 10:00 CDT, after astronomical dawn and before solar noon
+    const date = new Date('2025-07-20T15:00:00Z');
+    const [tonight] = getDarkSkyNights(date, DALLAS, 1);
+    expect(tonight.start.getTime()).toBeGreaterThan(date.getTime());
+    expect(tonight.start.getTime() - date.getTime()).toBeLessThan(4 * HOUR_MS);
+    expect(tonight.darkness.length).toBeGreaterThan(0);
+    expect(tonight.darkness[0].start.getTime()).toBeGreaterThan(date.getTime());
+  });
+
+  it('keeps the night under way before dawn, cut off at the current instant', () => {
+    // 03:00 CDT, still astronomically dark
+    const date = new Date('2025-07-20T08:00:00Z');
+    const [tonight] = getDarkSkyNights(date, DALLAS, 1);
+    expect(tonight.start.getTime()).toBeLessThan(date.getTime());
+    expect(tonight.darkness).toHaveLength(1);
+    expect(tonight.darkness[0].start).toEqual(date);
+    for (const window of tonight.windows) expect(window.start.getTime()).toBeGreaterThanOrEqual(date.getTime());
+  });
+
+  it('runs consecutive nights from one solar noon to the next', () => {
+    const nights = getDarkSkyNights(new Date('2025-07-20T20:00:00Z'), DALLAS, 3);
+    expect(nights[1].start).toEqual(nights[0].end);
+    expect(nights[2].start).toEqual(nights[1].end);
+    for (const night of nights) expect(night.hours).toBeGreaterThanOrEqual(0);
+  });
+});
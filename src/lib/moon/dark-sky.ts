@@ -0,0 +1,135 @@
+// Moon-free astronomical darkness night by night, and when the Milky Way's core is up during it.
+import { DAY_MS, equatorialToHorizontal, localSiderealTime, normalizeDegrees } from './astro';
+import { getMoonHorizonPosition, getMoonIllumination } from './ephemeris';
+import { refineCrossing } from './rise-set';
+import { getSunHorizonPosition } from './sun';
+import { getSunTimes, TWILIGHT_DEPRESSION } from './twilight';
+import type { EphemerisOptions, Observer } from './types';
+
+export interface DarkSkyThresholds {
+  // The Moon is out of the way while its upper limb is lower than this above the horizon, degrees
+  maxMoonAltitude: number;
+  // ...or at any altitude while its illuminated fraction is at most this, 0–1
+  maxIllumination: number;
+}
+
+// Strict: the Moon must be below the horizon
+export const DEFAULT_DARK_SKY_THRESHOLDS: DarkSkyThresholds = { maxMoonAltitude: 0, maxIllumination: 0 };
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface MilkyWayCoreView extends TimeInterval {
+  // Highest altitude of the Galactic Centre within the window, degrees
+  maxAltitude: number;
+}
+
+export interface DarkSkyWindow extends TimeInterval {
+  // When the core is more than 10° up inside the window; null if it never is
+  core: MilkyWayCoreView | null;
+}
+
+export interface DarkSkyNight extends TimeInterval {
+  // Illuminated fraction of the Moon in the middle of the night, 0–1
+  moonIllumination: number;
+  // Astronomical darkness, Moon or no Moon; empty in summer at high latitudes
+  darkness: TimeInterval[];
+  // Astronomical darkness with the Moon out of the way
+  windows: DarkSkyWindow[];
+  // Total length of the windows, hours
+  hours: number;
+}
+
+// Galactic Centre (Sgr A*), J2000; precession moves it by well under a degree this century
+const GALACTIC_CENTRE_RA = 266.4168;
+const GALACTIC_CENTRE_DEC = -29.0078;
+// Below this the core is lost in extinction and horizon haze
+const CORE_MIN_ALTITUDE = 10;
+const SCAN_STEP_MS = 5 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const getGalacticCentreAltitude = (date: Date, observer: Observer): number => {
+  const hourAngle = normalizeDegrees(localSiderealTime(date, observer.longitude) - GALACTIC_CENTRE_RA);
+  return equatorialToHorizontal(hourAngle, GALACTIC_CENTRE_DEC, observer.latitude).altitude;
+};
+
+// Stretches between `start` and `end` where `test` holds, with the edges refined to the second
+const findIntervals = (test: (date: Date) => boolean, start: number, end: number): TimeInterval[] => {
+  const fn = (d: Date) => (test(d) ? 1 : -1);
+  const intervals: TimeInterval[] = [];
+  let open: Date | null = test(new Date(start)) ? new Date(start) : null;
+  let t0 = start;
+  while (t0 < end) {
+    const t1 = Math.min(t0 + SCAN_STEP_MS, end);
+    const inside = test(new Date(t1));
+    if (inside && !open) {
+      open = refineCrossing(fn, t0, t1);
+    } else if (!inside && open) {
+      intervals.push({ start: open, end: refineCrossing(fn, t0, t1) });
+      open = null;
+    }
+    t0 = t1;
+  }
+  if (open) intervals.push({ start: open, end: new Date(end) });
+  return intervals;
+};
+
+const getCoreView = (window: TimeInterval, observer: Observer): MilkyWayCoreView | null => {
+  const [view] = findIntervals(
+    d => getGalacticCentreAltitude(d, observer) > CORE_MIN_ALTITUDE,
+    window.start.getTime(),
+    window.end.getTime()
+  );
+  if (!view) return null;
+  let maxAltitude = -90;
+  for (let t = view.start.getTime(); t <= view.end.getTime(); t += SCAN_STEP_MS) {
+    maxAltitude = Math.max(maxAltitude, getGalacticCentreAltitude(new Date(t), observer));
+  }
+  maxAltitude = Math.max(maxAltitude, getGalacticCentreAltitude(view.end, observer));
+  return { ...view, maxAltitude };
+};
+
+// Dark, Moon-free windows for `nights` nights starting with tonight; each night runs from one solar noon to the next.
+// Before dawn tonight is the night still under way, with anything already past cut off; after dawn it is the next.
+export const getDarkSkyNights = (
+  date: Date,
+  observer: Observer,
+  nights: number,
+  thresholds: DarkSkyThresholds = DEFAULT_DARK_SKY_THRESHOLDS,
+  options: EphemerisOptions = {}
+): DarkSkyNight[] => {
+  const isAstronomicallyDark = (d: Date) =>
+    getSunHorizonPosition(d, observer, options).geometricAltitude < -TWILIGHT_DEPRESSION.astronomical;
+
+  const { solarNoon } = getSunTimes(date, observer, options);
+  const morning = solarNoon.getTime() > date.getTime();
+  const firstNoon = morning && isAstronomicallyDark(date) ? solarNoon.getTime() - DAY_MS : solarNoon.getTime();
+
+  return Array.from({ length: nights }, (_, i) => {
+    const start = firstNoon + i * DAY_MS;
+    const end = start + DAY_MS;
+    const from = Math.max(start, date.getTime());
+    const moonIllumination = getMoonIllumination(new Date(start + DAY_MS / 2)).fraction;
+    const moonOutOfTheWay = (d: Date) => {
+      if (moonIllumination <= thresholds.maxIllumination) return true;
+      const moon = getMoonHorizonPosition(d, observer, options);
+      return moon.upperLimbAltitude < moon.horizon + thresholds.maxMoonAltitude;
+    };
+
+    const darkness = findIntervals(isAstronomicallyDark, from, end);
+    const windows = darkness.flatMap(({ start: darkStart, end: darkEnd }) =>
+      findIntervals(moonOutOfTheWay, darkStart.getTime(), darkEnd.getTime())
+    ).map(window => ({ ...window, core: getCoreView(window, observer) }));
+
+    return {
+      start: new Date(start),
+      end: new Date(end),
+      moonIllumination,
+      darkness,
+      windows,
+      hours: windows.reduce((sum, w) => sum + (w.end.getTime() - w.start.getTime()) / HOUR_MS, 0)
+    };
+  });
+};
@@ -0,0 +1,122 @@
+import { asind, DAY_MS } from './astro';
+import { MOON_RADIUS_KM } from './ephemeris';
+import { getMoonPosition } from './moon-position';
+import { findMinimum } from './rise-set';
+import type { PhaseEvent } from './types';
+
+export type ApsisKind = 'perigee' | 'apogee';
+
+export interface Apsis {
+  kind: ApsisKind;
+  date: Date;
+  // Centre-to-centre distance, km
+  distance: number;
+}
+
+// Nolle: within 10% of the orbit's perigee (or apogee) distance; distance: a fixed cut-off in km
+export type SupermoonDefinition = 'nolle' | 'distance';
+
+export type MoonSize = 'supermoon' | 'micromoon';
+
+export interface SyzygySize {
+  event: PhaseEvent;
+  distance: number;
+  size: MoonSize | null;
+}
+
+export interface MoonSizeExtremes {
+  // Closest perigee and farthest apogee of the year
+  largest: Apsis;
+  smallest: Apsis;
+}
+
+export const SUPERMOON_DISTANCE_KM = 360000;
+export const MICROMOON_DISTANCE_KM = 405000;
+const NOLLE_FRACTION = 0.1;
+
+// Perigee and apogee are at least ~12 days apart, so a half-day scan cannot step over one
+const SCAN_STEP_MS = DAY_MS / 2;
+
+export const getMoonDistance = (date: Date): number => getMoonPosition(date).distance;
+
+// Geocentric apparent diameter for a centre-to-centre distance, arcminutes
+export const getAngularDiameter = (distance: number): number => 2 * asind(MOON_RADIUS_KM / distance) * 60;
+
+// First perigee or apogee after `from` (direction 1) or before it (direction -1)
+const findApsis = (from: Date, kind: ApsisKind, direction: 1 | -1): Apsis => {
+  // Perigee is a minimum of distance, apogee a minimum of its negative
+  const sign = kind === 'perigee' ? 1 : -1;
+  const fn = (d: Date) => sign * getMoonDistance(d);
+  const step = direction * SCAN_STEP_MS;
+
+  let t = from.getTime();
+  let previous = fn(new Date(t - step));
+  let current = fn(from);
+  for (;;) {
+    const next = fn(new Date(t + step));
+    if (current <= previous && current <= next) {
+      const date = findMinimum(fn, Math.min(t - step, t + step), Math.max(t - step, t + step));
+      // The bracket reaches back past `from`; skip an apsis on the wrong side of it
+      if ((date.getTime() - from.getTime()) * direction > 0) {
+        return { kind, date, distance: getMoonDistance(date) };
+      }
+    }
+    t += step;
+    previous = current;
+    current = next;
+  }
+};
+
+export const findNextApsis = (after: Date, kind: ApsisKind): Apsis => findApsis(after, kind, 1);
+
+export const findPreviousApsis = (before: Date, kind: ApsisKind): Apsis => findApsis(before, kind, -1);
+
+// Perigee or apogee closest in time to `date`
+const findNearestApsis = (date: Date, kind: ApsisKind): Apsis => {
+  const previous = findPreviousApsis(date, kind);
+  const next = findNextApsis(date, kind);
+  return date.getTime() - previous.date.getTime() < next.date.getTime() - date.getTime() ? previous : next;
+};
+
+// Every perigee and apogee between `start` and `end`, in chronological order
+export const getApsides = (start: Date, end: Date): Apsis[] => {
+  const apsides: Apsis[] = [];
+  for (const kind of ['perigee', 'apogee'] as ApsisKind[]) {
+    let apsis = findNextApsis(start, kind);
+    while (apsis.date.getTime() < end.getTime()) {
+      apsides.push(apsis);
+      apsis = findNextApsis(new Date(apsis.date.getTime() + DAY_MS), kind);
+    }
+  }
+  return apsides.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+// Whether a new or full moon counts as a supermoon or micromoon under `definition`
+export const classifySyzygy = (event: PhaseEvent, definition: SupermoonDefinition): SyzygySize => {
+  const distance = getMoonDistance(event.date);
+  let size: MoonSize | null = null;
+
+  if (definition === 'distance') {
+    if (distance < SUPERMOON_DISTANCE_KM) size = 'supermoon';
+    if (distance > MICROMOON_DISTANCE_KM) size = 'micromoon';
+  } else {
+    const perigee = findNearestApsis(event.date, 'perigee').distance;
+    const apogee = findNearestApsis(event.date, 'apogee').distance;
+    const margin = NOLLE_FRACTION * (apogee - perigee);
+    if (distance <= perigee + margin) size = 'supermoon';
+    if (distance >= apogee - margin) size = 'micromoon';
+  }
+
+  return { event, distance, size };
+};
+
+// The year's closest perigee and farthest apogee, in the observer's calendar year containing `date`
+export const getMoonSizeExtremes = (date: Date): MoonSizeExtremes => {
+  const apsides = getApsides(new Date(date.getFullYear(), 0, 1), new Date(date.getFullYear() + 1, 0, 1));
+  const perigees = apsides.filter(a => a.kind === 'perigee');
+  const apogees = apsides.filter(a => a.kind === 'apogee');
+  return {
+    largest: perigees.reduce((a, b) => (b.distance < a.distance ? b : a)),
+    smallest: apogees.reduce((a, b) => (b.distance > a.distance ? b : a))
+  };
+};
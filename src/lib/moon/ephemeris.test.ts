@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { calculateMoonData, findNextMoonRiseSet } from './ephemeris';
+import { getMoonPosition } from './moon-position';
+import type { Observer } from './types';
+
+const MINUTE_MS = 60 * 1000;
+
+const WASHINGTON: Observer = { latitude: 38.8895, longitude: -77.0353 };
+const GREENWICH: Observer = { latitude: 51.4779, longitude: 0 };
+const SYDNEY: Observer = { latitude: -33.8688, longitude: 151.2093 };
+const LONGYEARBYEN: Observer = { latitude: 78.2232, longitude: 15.6267 };
+
+const expectNear = (actual: Date | null, expected: string, toleranceMs = MINUTE_MS) => {
+  expect(actual).not.toBeNull();
+  expect(Math.abs(actual!.getTime() - new Date(expected).getTime())).toBeLessThanOrEqual(toleranceMs);
+};
+
+describe('getMoonPosition', () => {
+  // Meeus, Astronomical Algorithms, example 47.a: 1992 April 12, 0h TD (ΔT = 59 s)
+  it('reproduces the worked example', () => {
+    const position = getMoonPosition(new Date(Date.UTC(1992, 3, 12) - 59 * 1000));
+    expect(position.longitude).toBeCloseTo(133.167265, 3);
+    expect(position.latitude).toBeCloseTo(-3.229126, 3);
+    expect(position.distance).toBeCloseTo(368409.7, 0);
+    expect(position.rightAscension).toBeCloseTo(134.68847, 3);
+    expect(position.declination).toBeCloseTo(13.768368, 3);
+  });
+});
+
+describe('calculateMoonData', () => {
+  // The total lunar eclipse of 2025 March 14, seen from Washington at 02:55 EDT
+  const report = calculateMoonData(new Date('2025-03-14T06:55:00Z'), WASHINGTON);
+
+  it('describes the full Moon', () => {
+    expect(report.phaseName).toBe('Full Moon');
+    expect(report.illumination).toBeGreaterThan(0.9999);
+    expect(report.phase).toBeCloseTo(0.5, 3);
+    expect(report.age).toBe(14.3);
+    expect(report.elongation).toBeGreaterThan(179);
+    expect(report.geocentricDistance).toBeCloseTo(401502, -1);
+  });
+
+  it('places the Moon high in the south-west with the Sun well down', () => {
+    expect(report.isVisible).toBe(true);
+    expect(report.altitude).toBeCloseTo(46.97, 1);
+    expect(report.azimuth).toBeCloseTo(217.54, 1);
+    expect(report.sunAltitude).toBeLessThan(-18);
+    expect(report.visibility.grade).toBe('easily-visible');
+    expect(report.horizonState).toBe('rises-and-sets');
+  });
+
+  it('gives the next set before the next rise while the Moon is up', () => {
+    expectNear(report.set, '2025-03-14T11:29:52Z');
+    expectNear(report.rise, '2025-03-14T23:49:52Z');
+  });
+
+  it('is the same for the same instant and observer', () => {
+    expect(calculateMoonData(new Date('2025-03-14T06:55:00Z'), WASHINGTON)).toEqual(report);
+  });
+
+  it('rejects impossible observers', () => {
+    expect(() => calculateMoonData(new Date('2025-03-14T06:55:00Z'), { latitude: 91, longitude: 0 })).toThrow();
+  });
+});
+
+describe('moonrise and moonset', () => {
+  // Upper limb on a sea-level horizon with standard refraction, the convention of published almanacs
+  it.each([
+    ['Washington', WASHINGTON, '2025-03-10T00:00:00Z', '2025-03-10T19:39:36Z', '2025-03-10T09:50:47Z'],
+    ['Greenwich', GREENWICH, '2025-01-15T00:00:00Z', '2025-01-15T18:04:45Z', '2025-01-15T09:17:04Z'],
+    ['Greenwich', GREENWICH, '2025-06-20T00:00:00Z', '2025-06-20T00:19:47Z', '2025-06-20T14:22:56Z'],
+    ['Sydney', SYDNEY, '2025-06-20T00:00:00Z', '2025-06-20T15:56:39Z', '2025-06-20T02:34:01Z']
+  ])('%s after %s', (_name, observer, from, rise, set) => {
+    const times = findNextMoonRiseSet(new Date(from), observer, { atmosphere: { temperature: 10, pressure: 1010 } });
+    expectNear(times.rise, rise);
+    expectNear(times.set, set);
+  });
+
+  it('reports a circumpolar Moon at high northern declination', () => {
+    const report = calculateMoonData(new Date('2025-01-12T00:00:00Z'), LONGYEARBYEN);
+    expect(report.isVisible).toBe(true);
+    expect(report.horizonState).toBe('circumpolar');
+    // It next sets five days later, once the declination has swung south
+    expectNear(report.set, '2025-01-17T11:27:03Z', 5 * MINUTE_MS);
+  });
+
+  it('reports a Moon that never rises at high southern declination', () => {
+    const report = calculateMoonData(new Date('2025-01-25T00:00:00Z'), LONGYEARBYEN);
+    expect(report.isVisible).toBe(false);
+    expect(report.horizonState).toBe('never-rises');
+    expectNear(report.rise, '2025-01-31T11:11:17Z', 5 * MINUTE_MS);
+    expect(report.bestViewing).toBeNull();
+  });
+});
@@ -0,0 +1,276 @@
+import { acosd, asind, atan2d, cosd, DAY_MS, normalizeDegrees, sind, tand, wrapDegrees } from './astro';
+import { getMoonPosition } from './moon-position';
+import { getMoonAge, getMoonPhaseDescription } from './phase';
+import { getHorizonDip, refractAltitude } from './refraction';
+import { findCrossings, findMinimum, findNextRiseSet, type HorizonCrossing } from './rise-set';
+import { getSunHorizonPosition, getSunPosition } from './sun';
+import { getTopocentricPosition } from './topocentric';
+import type { EphemerisOptions, HorizonState, MoonReport, Observer } from './types';
+import { classifyVisibility } from './visibility';
+
+export const MOON_RADIUS_KM = 1737.4;
+
+// How far ahead calculateMoonData looks for the next rise and set; beyond a tropical month, since near the
+// poles the Moon can stay up or down for two weeks at a time
+const RISE_SET_SEARCH_DAYS = 35;
+// Staying up (or down) through a whole lunar day, about 24h 50m, makes the Moon circumpolar (or never rising)
+const LUNAR_DAY_MS = 24.84 * 60 * 60 * 1000;
+// A lunar day is about 24h 50m, so two days always holds one culmination of each kind
+const CULMINATION_SEARCH_DAYS = 2;
+// The sky is dark enough for comfortable viewing once the Sun is below this altitude
+const DARK_SKY_SUN_ALTITUDE = -6;
+const VIEWING_STEP_MS = 10 * 60 * 1000;
+
+export interface MoonHorizonPosition {
+  // Apparent (refracted) topocentric altitude of the Moon's centre, degrees
+  altitude: number;
+  // Airless topocentric altitude of the centre, degrees
+  geometricAltitude: number;
+  // Apparent altitude of the Moon's upper limb, degrees
+  upperLimbAltitude: number;
+  // Apparent altitude of the visible horizon (negative for elevated observers), degrees
+  horizon: number;
+  azimuth: number;
+  semiDiameter: number;
+  // Observer-to-Moon distance in km
+  distance: number;
+  parallacticAngle: number;
+}
+
+export interface MoonIllumination {
+  // Illuminated fraction of the disc, 0–1
+  fraction: number;
+  // Position in the lunation, 0 = new, 0.5 = full
+  phase: number;
+  // Sun–Moon–Earth angle, degrees
+  phaseAngle: number;
+  // Geocentric Moon–Sun separation, degrees
+  elongation: number;
+  // Position angle of the bright limb's midpoint, eastward from north, degrees
+  brightLimbAngle: number;
+}
+
+export const assertValidObserver = ({ latitude, longitude }: Observer): void => {
+  if (latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) {
+    throw new Error('Invalid coordinates');
+  }
+};
+
+export const getMoonHorizonPosition = (
+  date: Date,
+  observer: Observer,
+  options: EphemerisOptions = {}
+): MoonHorizonPosition => {
+  const topo = getTopocentricPosition(date, observer, getMoonPosition(date));
+  const semiDiameter = asind(MOON_RADIUS_KM / topo.distance);
+  const upperLimb = topo.altitude + semiDiameter;
+
+  return {
+    altitude: refractAltitude(topo.altitude, options),
+    geometricAltitude: topo.altitude,
+    upperLimbAltitude: refractAltitude(upperLimb, options),
+    horizon: -getHorizonDip(observer.elevation),
+    azimuth: topo.azimuth,
+    semiDiameter,
+    distance: topo.distance,
+    parallacticAngle: atan2d(
+      sind(topo.hourAngle),
+      tand(observer.latitude) * cosd(topo.declination) - sind(topo.declination) * cosd(topo.hourAngle)
+    )
+  };
+};
+
+// Illumination geometry of the Moon as seen from the Earth's centre (Meeus ch. 48)
+export const getMoonIllumination = (date: Date): MoonIllumination => {
+  const moon = getMoonPosition(date);
+  const sun = getSunPosition(date);
+
+  const elongation = acosd(
+    sind(sun.declination) * sind(moon.declination) +
+      cosd(sun.declination) * cosd(moon.declination) * cosd(sun.rightAscension - moon.rightAscension)
+  );
+  const phaseAngle = atan2d(sun.distance * sind(elongation), moon.distance - sun.distance * cosd(elongation));
+  const brightLimbAngle = normalizeDegrees(
+    atan2d(
+      cosd(sun.declination) * sind(sun.rightAscension - moon.rightAscension),
+      sind(sun.declination) * cosd(moon.declination) -
+        cosd(sun.declination) * sind(moon.declination) * cosd(sun.rightAscension - moon.rightAscension)
+    )
+  );
+
+  return {
+    fraction: (1 + cosd(phaseAngle)) / 2,
+    phase: normalizeDegrees(moon.longitude - sun.longitude) / 360,
+    phaseAngle,
+    elongation,
+    brightLimbAngle
+  };
+};
+
+// Height of the Moon's upper limb above the visible horizon; positive while it is up
+const getUpperLimbClearance = (date: Date, observer: Observer, options: EphemerisOptions): number => {
+  const position = getMoonHorizonPosition(date, observer, options);
+  return position.upperLimbAltitude - position.horizon;
+};
+
+// Upper-limb moonrise and moonset after `date`, refined to the second
+export const findNextMoonRiseSet = (
+  date: Date,
+  observer: Observer,
+  options: EphemerisOptions = {},
+  searchDays = RISE_SET_SEARCH_DAYS
+): { rise: Date | null; set: Date | null } => {
+  return findNextRiseSet(d => getUpperLimbClearance(d, observer, options), date, searchDays);
+};
+
+// Every moonrise (rising) and moonset between `start` and `end`
+export const findMoonHorizonCrossings = (
+  start: Date,
+  end: Date,
+  observer: Observer,
+  options: EphemerisOptions = {}
+): HorizonCrossing[] => findCrossings(d => getUpperLimbClearance(d, observer, options), start, end);
+
+export interface Culmination {
+  date: Date;
+  // Upper culmination (due south or north, highest) rather than lower (lowest)
+  upper: boolean;
+  // Apparent altitude of the centre, degrees
+  altitude: number;
+}
+
+// Meridian passages of the Moon between `start` and `end`, in order
+export const findMoonCulminations = (
+  start: Date,
+  end: Date,
+  observer: Observer,
+  options: EphemerisOptions = {}
+): Culmination[] => {
+  // The hour angle climbs through 0 at upper culmination and jumps from +180 to −180 at lower culmination
+  const hourAngle = (d: Date) => wrapDegrees(getTopocentricPosition(d, observer, getMoonPosition(d)).hourAngle);
+  return findCrossings(hourAngle, start, end).map(({ date, rising }) => ({
+    date,
+    upper: rising,
+    altitude: getMoonHorizonPosition(date, observer, options).altitude
+  }));
+};
+
+// The next upper and lower culmination after `date`
+export const findNextMoonCulminations = (
+  date: Date,
+  observer: Observer,
+  options: EphemerisOptions = {}
+): { upper: Culmination | null; lower: Culmination | null } => {
+  const end = new Date(date.getTime() + CULMINATION_SEARCH_DAYS * DAY_MS);
+  const culminations = findMoonCulminations(date, end, observer, options);
+  return {
+    upper: culminations.find(({ upper }) => upper) ?? null,
+    lower: culminations.find(({ upper }) => !upper) ?? null
+  };
+};
+
+export interface BestViewing {
+  date: Date;
+  // Apparent altitude and azimuth of the centre, degrees
+  altitude: number;
+  azimuth: number;
+}
+
+// When the Moon stands highest between now (or dusk, if it is still light) and dawn, with the Sun below −6°;
+// null when the Sun stays up for the next day or the Moon stays below the horizon all night
+export const findBestViewingTime = (
+  date: Date,
+  observer: Observer,
+  options: EphemerisOptions = {}
+): BestViewing | null => {
+  const darkness = (d: Date) => DARK_SKY_SUN_ALTITUDE - getSunHorizonPosition(d, observer, options).altitude;
+
+  let start = date;
+  if (darkness(date) <= 0) {
+    const dusk = findCrossings(darkness, date, new Date(date.getTime() + DAY_MS)).find(({ rising }) => rising);
+    if (!dusk) return null;
+    start = dusk.date;
+  }
+  // In polar night the Sun never climbs back, so one day stands in for the night
+  const dawn = findCrossings(darkness, start, new Date(start.getTime() + DAY_MS)).find(({ rising }) => !rising);
+  const end = dawn ? dawn.date.getTime() : start.getTime() + DAY_MS;
+
+  const altitude = (d: Date) => getMoonHorizonPosition(d, observer, options).altitude;
+  let best = start.getTime();
+  let bestAltitude = -Infinity;
+  for (let t = best; t <= end; t += VIEWING_STEP_MS) {
+    const current = altitude(new Date(t));
+    if (current > bestAltitude) {
+      best = t;
+      bestAltitude = current;
+    }
+  }
+  if (altitude(new Date(end)) > bestAltitude) best = end;
+
+  const peak = findMinimum(
+    d => -altitude(d),
+    Math.max(start.getTime(), best - VIEWING_STEP_MS),
+    Math.min(end, best + VIEWING_STEP_MS)
+  );
+  const position = getMoonHorizonPosition(peak, observer, options);
+  if (position.upperLimbAltitude <= position.horizon) return null;
+  return { date: peak, altitude: position.altitude, azimuth: position.azimuth };
+};
+
+// Whether the Moon rises and sets within the next lunar day, or stays on one side of the horizon throughout
+export const getHorizonState = (
+  date: Date,
+  isVisible: boolean,
+  rise: Date | null,
+  set: Date | null
+): HorizonState => {
+  const next = isVisible ? set : rise;
+  if (next && next.getTime() - date.getTime() < LUNAR_DAY_MS) return 'rises-and-sets';
+  return isVisible ? 'circumpolar' : 'never-rises';
+};
+
+export const calculateMoonData = (date: Date, observer: Observer, options: EphemerisOptions = {}): MoonReport => {
+  assertValidObserver(observer);
+
+  const position = getMoonHorizonPosition(date, observer, options);
+  const illumination = getMoonIllumination(date);
+  const sun = getSunHorizonPosition(date, observer, options);
+  const { rise, set } = findNextMoonRiseSet(date, observer, options);
+  const culminations = findNextMoonCulminations(date, observer, options);
+  // Visible once the upper limb clears the apparent horizon
+  const isVisible = position.upperLimbAltitude > position.horizon;
+
+  return {
+    date: new Date(date),
+    isVisible,
+    altitude: position.altitude,
+    azimuth: position.azimuth,
+    phase: illumination.phase,
+    phaseName: getMoonPhaseDescription(illumination.phase),
+    age: getMoonAge(date),
+    illumination: illumination.fraction,
+    distance: position.distance,
+    geocentricDistance: getMoonPosition(date).distance,
+    semiDiameter: position.semiDiameter,
+    brightLimbAngle: illumination.brightLimbAngle,
+    parallacticAngle: position.parallacticAngle,
+    elongation: illumination.elongation,
+    sunAltitude: sun.altitude,
+    sunAzimuth: sun.azimuth,
+    visibility: classifyVisibility({
+      moonAltitude: position.altitude,
+      moonUpperLimbAltitude: position.upperLimbAltitude,
+      horizon: position.horizon,
+      moonAzimuth: position.azimuth,
+      sunAltitude: sun.altitude,
+      elongation: illumination.elongation,
+      illumination: illumination.fraction
+    }),
+    rise,
+    set,
+    horizonState: getHorizonState(date, isVisible, rise, set),
+    upperCulmination: culminations.upper,
+    lowerCulmination: culminations.lower,
+    bestViewing: findBestViewingTime(date, observer, options)
+  };
+};
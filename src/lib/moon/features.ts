@@ -0,0 +1,181 @@
+import { asind, cosd, DAY_MS, normalizeDegrees, sind, wrapDegrees } from './astro';
+import { getMoonHorizonPosition } from './ephemeris';
+import { getLibration, type Libration } from './libration';
+import { getSunHorizonPosition } from './sun';
+import type { Observer } from './types';
+
+export type LunarFeatureKind = 'crater' | 'mare' | 'mountains' | 'valley' | 'effect';
+
+export interface LunarFeature {
+  name: string;
+  kind: LunarFeatureKind;
+  // Selenographic coordinates, degrees; longitude positive towards Mare Crisium
+  latitude: number;
+  longitude: number;
+  // Approximate size, km
+  diameter: number;
+  // Clair-obscur effects only: the span of colongitude over which the effect shows
+  colongitude?: [number, number];
+}
+
+export type TerminatorSide = 'sunrise' | 'sunset';
+
+export interface FeatureInRelief {
+  feature: LunarFeature;
+  // Height of the Sun above the feature's local horizon, degrees
+  sunElevation: number;
+  side: TerminatorSide;
+}
+
+export interface ClairObscurEvent {
+  feature: LunarFeature;
+  // First and last moments the effect is in view from the observer's location
+  start: Date;
+  end: Date;
+}
+
+export const LUNAR_FEATURES: LunarFeature[] = [
+  { name: 'Lunar X', kind: 'effect', latitude: -25.2, longitude: 1.1, diameter: 30, colongitude: [357.8, 359.4] },
+  { name: 'Lunar V', kind: 'effect', latitude: 7.8, longitude: 1.4, diameter: 30, colongitude: [358.0, 359.6] },
+  { name: 'Jewelled Handle', kind: 'effect', latitude: 47.1, longitude: -34.0, diameter: 420, colongitude: [28, 34] },
+  { name: 'Copernicus', kind: 'crater', latitude: 9.6, longitude: -20.1, diameter: 93 },
+  { name: 'Tycho', kind: 'crater', latitude: -43.3, longitude: -11.2, diameter: 85 },
+  { name: 'Plato', kind: 'crater', latitude: 51.6, longitude: -9.3, diameter: 101 },
+  { name: 'Clavius', kind: 'crater', latitude: -58.4, longitude: -14.4, diameter: 231 },
+  { name: 'Aristarchus', kind: 'crater', latitude: 23.7, longitude: -47.4, diameter: 40 },
+  { name: 'Kepler', kind: 'crater', latitude: 8.1, longitude: -38.0, diameter: 31 },
+  { name: 'Gassendi', kind: 'crater', latitude: -17.6, longitude: -40.1, diameter: 110 },
+  { name: 'Grimaldi', kind: 'crater', latitude: -5.2, longitude: -68.6, diameter: 172 },
+  { name: 'Schickard', kind: 'crater', latitude: -44.3, longitude: -54.6, diameter: 206 },
+  { name: 'Bullialdus', kind: 'crater', latitude: -20.7, longitude: -22.2, diameter: 61 },
+  { name: 'Pitatus', kind: 'crater', latitude: -29.8, longitude: -13.5, diameter: 106 },
+  { name: 'Longomontanus', kind: 'crater', latitude: -49.6, longitude: -21.8, diameter: 157 },
+  { name: 'Eratosthenes', kind: 'crater', latitude: 14.5, longitude: -11.3, diameter: 58 },
+  { name: 'Archimedes', kind: 'crater', latitude: 29.7, longitude: -4.0, diameter: 81 },
+  { name: 'Ptolemaeus', kind: 'crater', latitude: -9.3, longitude: -1.9, diameter: 153 },
+  { name: 'Alphonsus', kind: 'crater', latitude: -13.4, longitude: -2.8, diameter: 108 },
+  { name: 'Arzachel', kind: 'crater', latitude: -18.2, longitude: -1.9, diameter: 97 },
+  { name: 'Hipparchus', kind: 'crater', latitude: -5.1, longitude: 4.8, diameter: 138 },
+  { name: 'Albategnius', kind: 'crater', latitude: -11.2, longitude: 4.1, diameter: 131 },
+  { name: 'Walter', kind: 'crater', latitude: -33.1, longitude: 0.7, diameter: 132 },
+  { name: 'Werner', kind: 'crater', latitude: -28.0, longitude: 3.3, diameter: 70 },
+  { name: 'Maurolycus', kind: 'crater', latitude: -41.8, longitude: 14.0, diameter: 114 },
+  { name: 'Aristoteles', kind: 'crater', latitude: 50.2, longitude: 17.4, diameter: 88 },
+  { name: 'Eudoxus', kind: 'crater', latitude: 44.3, longitude: 16.3, diameter: 67 },
+  { name: 'Theophilus', kind: 'crater', latitude: -11.4, longitude: 26.4, diameter: 99 },
+  { name: 'Cyrillus', kind: 'crater', latitude: -13.2, longitude: 24.0, diameter: 98 },
+  { name: 'Catharina', kind: 'crater', latitude: -18.1, longitude: 23.6, diameter: 99 },
+  { name: 'Posidonius', kind: 'crater', latitude: 31.8, longitude: 29.9, diameter: 95 },
+  { name: 'Hercules', kind: 'crater', latitude: 46.7, longitude: 39.1, diameter: 69 },
+  { name: 'Atlas', kind: 'crater', latitude: 46.7, longitude: 44.4, diameter: 87 },
+  { name: 'Janssen', kind: 'crater', latitude: -44.9, longitude: 41.0, diameter: 190 },
+  { name: 'Proclus', kind: 'crater', latitude: 16.1, longitude: 46.8, diameter: 27 },
+  { name: 'Endymion', kind: 'crater', latitude: 53.6, longitude: 57.0, diameter: 123 },
+  { name: 'Petavius', kind: 'crater', latitude: -25.3, longitude: 60.4, diameter: 177 },
+  { name: 'Langrenus', kind: 'crater', latitude: -8.9, longitude: 61.1, diameter: 132 },
+  { name: 'Mare Imbrium', kind: 'mare', latitude: 32.8, longitude: -15.6, diameter: 1146 },
+  { name: 'Mare Serenitatis', kind: 'mare', latitude: 28.0, longitude: 17.5, diameter: 674 },
+  { name: 'Mare Tranquillitatis', kind: 'mare', latitude: 8.5, longitude: 31.4, diameter: 873 },
+  { name: 'Mare Crisium', kind: 'mare', latitude: 17.0, longitude: 59.1, diameter: 556 },
+  { name: 'Mare Nectaris', kind: 'mare', latitude: -15.2, longitude: 35.5, diameter: 339 },
+  { name: 'Mare Fecunditatis', kind: 'mare', latitude: -7.8, longitude: 51.3, diameter: 909 },
+  { name: 'Mare Nubium', kind: 'mare', latitude: -21.3, longitude: -16.6, diameter: 715 },
+  { name: 'Mare Humorum', kind: 'mare', latitude: -24.4, longitude: -38.6, diameter: 389 },
+  { name: 'Mare Vaporum', kind: 'mare', latitude: 13.3, longitude: 3.6, diameter: 245 },
+  { name: 'Mare Frigoris', kind: 'mare', latitude: 56.0, longitude: 1.4, diameter: 1596 },
+  { name: 'Oceanus Procellarum', kind: 'mare', latitude: 18.4, longitude: -57.4, diameter: 2592 },
+  { name: 'Sinus Iridum', kind: 'mare', latitude: 44.1, longitude: -31.5, diameter: 236 },
+  { name: 'Mare Orientale', kind: 'mare', latitude: -19.4, longitude: -92.8, diameter: 294 },
+  { name: 'Mare Marginis', kind: 'mare', latitude: 13.3, longitude: 86.1, diameter: 358 },
+  { name: 'Mare Smythii', kind: 'mare', latitude: 1.3, longitude: 87.5, diameter: 373 },
+  { name: 'Mare Humboldtianum', kind: 'mare', latitude: 56.8, longitude: 81.5, diameter: 273 },
+  { name: 'Mare Australe', kind: 'mare', latitude: -38.9, longitude: 93.0, diameter: 603 },
+  { name: 'Montes Apenninus', kind: 'mountains', latitude: 18.9, longitude: -3.7, diameter: 600 },
+  { name: 'Montes Alpes', kind: 'mountains', latitude: 46.4, longitude: -0.8, diameter: 281 },
+  { name: 'Montes Jura', kind: 'mountains', latitude: 47.1, longitude: -34.0, diameter: 422 },
+  { name: 'Vallis Alpes', kind: 'valley', latitude: 48.5, longitude: 3.2, diameter: 166 },
+  { name: 'Rupes Recta', kind: 'valley', latitude: -22.1, longitude: -7.8, diameter: 110 }
+];
+
+// Shadows are long and relief is strongest with the Sun this low over a feature
+const MAX_RELIEF_ELEVATION = 10;
+// Mean rate of increase of the Sun's selenographic colongitude, degrees per day
+const COLONGITUDE_RATE = 360 / 29.530588853;
+const SYNODIC_MONTH_MS = 29.530588853 * DAY_MS;
+const SCAN_STEP_MS = 10 * 60 * 1000;
+const TOLERANCE_MS = 1000;
+const MAX_ITERATIONS = 20;
+// Give up looking for a locally visible occurrence after about two years
+const MAX_LUNATIONS = 25;
+// The Moon must be this high, and the Sun this far below the horizon, to see an effect
+const MIN_MOON_ALTITUDE = 5;
+const MAX_SUN_ALTITUDE = -6;
+
+// Altitude of the Sun above the horizon at a point on the Moon, degrees
+export const getSolarElevation = (feature: LunarFeature, libration: Libration): number =>
+  asind(
+    sind(libration.subSolarLatitude) * sind(feature.latitude) +
+      cosd(libration.subSolarLatitude) * cosd(feature.latitude) * cosd(libration.subSolarLongitude - feature.longitude)
+  );
+
+// Whether a point on the Moon is on the hemisphere facing the Earth
+export const isOnEarthSide = (feature: Pick<LunarFeature, 'latitude' | 'longitude'>, libration: Libration): boolean =>
+  sind(libration.latitude) * sind(feature.latitude) +
+    cosd(libration.latitude) * cosd(feature.latitude) * cosd(libration.longitude - feature.longitude) >
+  0;
+
+// Features on the Earth-facing side with the Sun low over them, lowest Sun first
+export const getFeaturesInRelief = (libration: Libration, features = LUNAR_FEATURES): FeatureInRelief[] =>
+  features
+    .filter(feature => isOnEarthSide(feature, libration))
+    .map(feature => ({
+      feature,
+      sunElevation: getSolarElevation(feature, libration),
+      // The sub-solar point moves west; while it is still east of a feature, the Sun there is rising
+      side: (wrapDegrees(libration.subSolarLongitude - feature.longitude) > 0 ? 'sunrise' : 'sunset') as TerminatorSide
+    }))
+    .filter(({ sunElevation }) => sunElevation > 0 && sunElevation < MAX_RELIEF_ELEVATION)
+    .sort((a, b) => a.sunElevation - b.sunElevation);
+
+// First instant after `after` at which the Sun's colongitude reaches `target`
+export const findNextColongitude = (after: Date, target: number): Date => {
+  const daysAhead = normalizeDegrees(target - getLibration(after).colongitude) / COLONGITUDE_RATE;
+  let t = after.getTime() + daysAhead * DAY_MS;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const step = (wrapDegrees(getLibration(new Date(t)).colongitude - target) / COLONGITUDE_RATE) * DAY_MS;
+    t -= step;
+    if (Math.abs(step) < TOLERANCE_MS) break;
+  }
+  return t <= after.getTime() ? findNextColongitude(new Date(after.getTime() + DAY_MS), target) : new Date(Math.round(t));
+};
+
+const isWellPlaced = (date: Date, observer: Observer): boolean =>
+  getMoonHorizonPosition(date, observer).altitude > MIN_MOON_ALTITUDE &&
+  getSunHorizonPosition(date, observer).altitude < MAX_SUN_ALTITUDE;
+
+// Next time a clair-obscur effect is on show with the Moon up in a dark sky at the observer's location
+export const findNextClairObscur = (after: Date, feature: LunarFeature, observer: Observer): ClairObscurEvent | null => {
+  if (!feature.colongitude) return null;
+  const [from, to] = feature.colongitude;
+  const durationMs = (normalizeDegrees(to - from) / COLONGITUDE_RATE) * DAY_MS;
+
+  let search = new Date(after.getTime() - durationMs);
+  for (let i = 0; i < MAX_LUNATIONS; i++) {
+    const windowStart = findNextColongitude(search, from);
+    const windowEnd = windowStart.getTime() + durationMs;
+    let start: Date | null = null;
+    let end: Date | null = null;
+    for (let t = Math.max(windowStart.getTime(), after.getTime()); t <= windowEnd; t += SCAN_STEP_MS) {
+      const date = new Date(t);
+      if (isWellPlaced(date, observer)) {
+        start ??= date;
+        end = date;
+      } else if (start) {
+        break;
+      }
+    }
+    if (start && end) return { feature, start, end };
+    search = new Date(windowStart.getTime() + SYNODIC_MONTH_MS / 2);
+  }
+  return null;
+};
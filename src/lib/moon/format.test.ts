@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { getAzimuthDirection, getTimeRemaining } from './format';
+
+const NOW = new Date('2025-03-14T06:55:00Z');
+
+describe('getTimeRemaining', () => {
+  it('splits the gap into whole hours and minutes', () => {
+    expect(getTimeRemaining(new Date('2025-03-14T09:40:59Z'), NOW)).toEqual({ hours: 2, minutes: 45 });
+    expect(getTimeRemaining(new Date('2025-03-16T07:05:00Z'), NOW)).toEqual({ hours: 48, minutes: 10 });
+  });
+
+  it('gives zero at the event itself', () => {
+    expect(getTimeRemaining(NOW, NOW)).toEqual({ hours: 0, minutes: 0 });
+  });
+
+  it('gives null for past or missing events', () => {
+    expect(getTimeRemaining(new Date('2025-03-14T06:54:59Z'), NOW)).toBeNull();
+    expect(getTimeRemaining(null, NOW)).toBeNull();
+  });
+});
+
+describe('getAzimuthDirection', () => {
+  it('rounds to the nearest of 16 points', () => {
+    expect(getAzimuthDirection(0)).toBe('N');
+    expect(getAzimuthDirection(11)).toBe('N');
+    expect(getAzimuthDirection(12)).toBe('NNE');
+    expect(getAzimuthDirection(90)).toBe('E');
+    expect(getAzimuthDirection(217.5)).toBe('SW');
+    expect(getAzimuthDirection(355)).toBe('N');
+  });
+});
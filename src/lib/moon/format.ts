@@ -0,0 +1,20 @@
+import type { TimeRemaining } from './types';
+
+const DIRECTIONS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+
+export const getAzimuthDirection = (azimuth: number): string => {
+  const index = Math.round(azimuth / 22.5) % 16;
+  return DIRECTIONS[index];
+};
+
+export const getTimeRemaining = (targetDate: Date | null, now: Date): TimeRemaining | null => {
+  if (!targetDate) return null;
+  const diffMs = targetDate.getTime() - now.getTime();
+
+  if (diffMs < 0) return null; // Event has already passed
+
+  const hours = Math.floor(diffMs / (1000 * 60 * 60));
+  const minutes = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
+
+  return { hours, minutes };
+};
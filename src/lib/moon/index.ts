@@ -0,0 +1,23 @@
+export * from './types';
+export * from './astro';
+export * from './sun';
+export * from './moon-position';
+export * from './refraction';
+export * from './topocentric';
+export * from './rise-set';
+export * from './ephemeris';
+export * from './altitude-curve';
+export * from './twilight';
+export * from './dark-sky';
+export * from './sky-brightness';
+export * from './sub-points';
+export * from './visibility';
+export * from './phase';
+export * from './phase-events';
+export * from './format';
+export * from './crescent';
+export * from './lunar-eclipse';
+export * from './solar-eclipse';
+export * from './distance';
+export * from './libration';
+export * from './features';
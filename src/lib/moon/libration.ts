@@ -0,0 +1,124 @@
+// Optical libration and the Moon's orientation (Meeus ch. 53); physical libration, under 0.04°, is ignored.
+import {
+  asind,
+  atan2d,
+  cosd,
+  julianCenturies,
+  normalizeDegrees,
+  nutation,
+  sind,
+  toJulianEphemerisDay,
+  trueObliquity,
+  wrapDegrees
+} from './astro';
+import { getLunarArguments, getMoonPosition } from './moon-position';
+import { getSunPosition } from './sun';
+
+export interface Libration {
+  // Selenographic longitude and latitude of the centre of the disc as seen from the Earth's centre, degrees
+  longitude: number;
+  latitude: number;
+  // Position angle of the Moon's north pole, eastward from celestial north, degrees
+  positionAngle: number;
+  // Selenographic longitude and latitude of the point with the Sun overhead, degrees
+  subSolarLongitude: number;
+  subSolarLatitude: number;
+  // Selenographic colongitude of the Sun: the longitude of the morning terminator, degrees
+  colongitude: number;
+}
+
+// Inclination of the mean lunar equator to the ecliptic
+const LUNAR_EQUATOR_INCLINATION = 1.54242;
+
+// Selenographic longitude and latitude of the point facing ecliptic direction (λ, β)
+const toSelenographic = (
+  longitude: number,
+  latitude: number,
+  node: number,
+  argumentOfLatitude: number,
+  nutationInLongitude: number
+): [number, number] => {
+  const I = LUNAR_EQUATOR_INCLINATION;
+  const W = longitude - nutationInLongitude - node;
+  const A = atan2d(
+    sind(W) * cosd(latitude) * cosd(I) - sind(latitude) * sind(I),
+    cosd(W) * cosd(latitude)
+  );
+  return [
+    wrapDegrees(A - argumentOfLatitude),
+    asind(-sind(W) * cosd(latitude) * sind(I) - sind(latitude) * cosd(I))
+  ];
+};
+
+export const getLibration = (date: Date): Libration => {
+  const T = julianCenturies(toJulianEphemerisDay(date));
+  const { node, argumentOfLatitude } = getLunarArguments(T);
+  const dPsi = nutation(T).longitude;
+  const moon = getMoonPosition(date);
+  const sun = getSunPosition(date);
+
+  const [longitude, latitude] = toSelenographic(moon.longitude, moon.latitude, node, argumentOfLatitude, dPsi);
+
+  // Direction of the Sun from the Moon, corrected for the Moon's offset from the Earth
+  const ratio = moon.distance / sun.distance;
+  const heliocentricLongitude =
+    sun.longitude + 180 + ratio * (180 / Math.PI) * cosd(moon.latitude) * sind(sun.longitude - moon.longitude);
+  const heliocentricLatitude = ratio * moon.latitude;
+  const [subSolarLongitude, subSolarLatitude] = toSelenographic(
+    heliocentricLongitude,
+    heliocentricLatitude,
+    node,
+    argumentOfLatitude,
+    dPsi
+  );
+
+  const V = node + dPsi;
+  const obliquity = trueObliquity(T);
+  const X = sind(LUNAR_EQUATOR_INCLINATION) * sind(V);
+  const Y =
+    sind(LUNAR_EQUATOR_INCLINATION) * cosd(V) * cosd(obliquity) - cosd(LUNAR_EQUATOR_INCLINATION) * sind(obliquity);
+  const omega = atan2d(X, Y);
+  const positionAngle = asind((Math.hypot(X, Y) * cosd(moon.rightAscension - omega)) / cosd(latitude));
+
+  return {
+    longitude,
+    latitude,
+    positionAngle: normalizeDegrees(positionAngle),
+    subSolarLongitude,
+    subSolarLatitude,
+    colongitude: normalizeDegrees(90 - subSolarLongitude)
+  };
+};
+
+export interface DiscPosition {
+  // Position on the apparent disc in units of its radius, x to the right and y up
+  x: number;
+  y: number;
+  // False when the point is on the far side
+  facing: boolean;
+}
+
+// Where a selenographic point appears on the disc, zenith up when `parallacticAngle` is given, else north up
+export const getDiscPosition = (
+  latitude: number,
+  longitude: number,
+  libration: Libration,
+  parallacticAngle = 0
+): DiscPosition => {
+  const l = libration.longitude;
+  const b = libration.latitude;
+  const p = [cosd(latitude) * cosd(longitude), cosd(latitude) * sind(longitude), sind(latitude)];
+
+  // Components along selenographic east and north at the disc centre, and towards the viewer
+  const east = -sind(l) * p[0] + cosd(l) * p[1];
+  const north = -sind(b) * cosd(l) * p[0] - sind(b) * sind(l) * p[1] + cosd(b) * p[2];
+  const toward = cosd(b) * cosd(l) * p[0] + cosd(b) * sind(l) * p[1] + sind(b) * p[2];
+
+  // Lunar north sits this far counter-clockwise from the top of the disc
+  const theta = libration.positionAngle - parallacticAngle;
+  return {
+    x: east * cosd(theta) - north * sind(theta),
+    y: east * sind(theta) + north * cosd(theta),
+    facing: toward > 0
+  };
+};
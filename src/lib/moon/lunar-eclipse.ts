@@ -0,0 +1,143 @@
+import { angularSeparation, asind, cosd, DAY_MS, EARTH_RADIUS_KM, normalizeDegrees, wrapDegrees } from './astro';
+import { getMoonHorizonPosition, MOON_RADIUS_KM } from './ephemeris';
+import { getMoonPosition } from './moon-position';
+import { findNextPhase } from './phase-events';
+import { findMinimum, refineCrossing } from './rise-set';
+import { getSunPosition, SUN_RADIUS_KM } from './sun';
+import type { Observer } from './types';
+
+export type LunarEclipseKind = 'penumbral' | 'partial' | 'total';
+
+export type LunarEclipseContactName = 'P1' | 'U1' | 'U2' | 'Greatest' | 'U3' | 'U4' | 'P4';
+
+export interface LunarEclipseContact {
+  name: LunarEclipseContactName;
+  date: Date;
+  // Present when local circumstances were requested
+  moonAltitude?: number;
+  moonAboveHorizon?: boolean;
+}
+
+export interface LunarEclipse {
+  kind: LunarEclipseKind;
+  greatest: Date;
+  // Fraction of the Moon's diameter inside the umbra / penumbra at greatest eclipse
+  umbralMagnitude: number;
+  penumbralMagnitude: number;
+  contacts: LunarEclipseContact[];
+}
+
+export interface ShadowGeometry {
+  // Moon centre offset from the shadow axis on the sky, degrees; x positive eastward
+  x: number;
+  y: number;
+  // Centre-to-axis separation, degrees
+  separation: number;
+  umbralRadius: number;
+  penumbralRadius: number;
+  moonSemiDiameter: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+// Window around full moon in which greatest eclipse is sought
+const SEARCH_WINDOW_MS = 6 * HOUR_MS;
+// Longest possible span from P1 to greatest eclipse is about 3 hours
+const CONTACT_WINDOW_MS = 4 * HOUR_MS;
+// The Earth's atmosphere enlarges the shadow by about 1/50 (Chauvenet)
+const SHADOW_ENLARGEMENT = 1.02;
+
+// Position of the Moon relative to the Earth's shadow cone at `date`
+export const getShadowGeometry = (date: Date): ShadowGeometry => {
+  const moon = getMoonPosition(date);
+  const sun = getSunPosition(date);
+
+  const shadowRa = normalizeDegrees(sun.rightAscension + 180);
+  const shadowDec = -sun.declination;
+
+  const moonParallax = asind(EARTH_RADIUS_KM / moon.distance);
+  const sunParallax = asind(EARTH_RADIUS_KM / sun.distance);
+  const sunSemiDiameter = asind(SUN_RADIUS_KM / sun.distance);
+
+  return {
+    x: wrapDegrees(moon.rightAscension - shadowRa) * cosd(shadowDec),
+    y: moon.declination - shadowDec,
+    separation: angularSeparation(moon.rightAscension, moon.declination, shadowRa, shadowDec),
+    umbralRadius: SHADOW_ENLARGEMENT * (moonParallax + sunParallax - sunSemiDiameter),
+    penumbralRadius: SHADOW_ENLARGEMENT * (moonParallax + sunParallax + sunSemiDiameter),
+    moonSemiDiameter: asind(MOON_RADIUS_KM / moon.distance)
+  };
+};
+
+// Instant of least separation between the Moon and the shadow axis near `fullMoon`
+const findGreatestEclipse = (fullMoon: Date): Date =>
+  findMinimum(
+    d => getShadowGeometry(d).separation,
+    fullMoon.getTime() - SEARCH_WINDOW_MS,
+    fullMoon.getTime() + SEARCH_WINDOW_MS
+  );
+
+// Contact pairs: each is the instant the Moon's limb crosses a shadow edge
+const CONTACT_EDGES: { names: [LunarEclipseContactName, LunarEclipseContactName]; limit: (g: ShadowGeometry) => number }[] = [
+  { names: ['P1', 'P4'], limit: g => g.penumbralRadius + g.moonSemiDiameter },
+  { names: ['U1', 'U4'], limit: g => g.umbralRadius + g.moonSemiDiameter },
+  { names: ['U2', 'U3'], limit: g => g.umbralRadius - g.moonSemiDiameter }
+];
+
+const CONTACT_ORDER: LunarEclipseContactName[] = ['P1', 'U1', 'U2', 'Greatest', 'U3', 'U4', 'P4'];
+
+// The eclipse at the full moon `fullMoon`, or null when the Moon misses the penumbra
+export const getLunarEclipseAt = (fullMoon: Date, observer?: Observer): LunarEclipse | null => {
+  const greatest = findGreatestEclipse(fullMoon);
+  const g = getShadowGeometry(greatest);
+
+  const penumbralMagnitude = (g.penumbralRadius + g.moonSemiDiameter - g.separation) / (2 * g.moonSemiDiameter);
+  const umbralMagnitude = (g.umbralRadius + g.moonSemiDiameter - g.separation) / (2 * g.moonSemiDiameter);
+  if (penumbralMagnitude <= 0) return null;
+
+  const t = greatest.getTime();
+  const contacts: LunarEclipseContact[] = [{ name: 'Greatest', date: greatest }];
+  for (const { names, limit } of CONTACT_EDGES) {
+    if (g.separation >= limit(g)) continue;
+    const edge = (d: Date) => {
+      const geometry = getShadowGeometry(d);
+      return geometry.separation - limit(geometry);
+    };
+    contacts.push({ name: names[0], date: refineCrossing(edge, t - CONTACT_WINDOW_MS, t) });
+    contacts.push({ name: names[1], date: refineCrossing(edge, t, t + CONTACT_WINDOW_MS) });
+  }
+  contacts.sort((a, b) => CONTACT_ORDER.indexOf(a.name) - CONTACT_ORDER.indexOf(b.name));
+
+  if (observer) {
+    for (const contact of contacts) {
+      const position = getMoonHorizonPosition(contact.date, observer);
+      contact.moonAltitude = position.altitude;
+      contact.moonAboveHorizon = position.upperLimbAltitude > position.horizon;
+    }
+  }
+
+  return {
+    kind: umbralMagnitude >= 1 ? 'total' : umbralMagnitude > 0 ? 'partial' : 'penumbral',
+    greatest,
+    umbralMagnitude,
+    penumbralMagnitude,
+    contacts
+  };
+};
+
+// Every lunar eclipse whose greatest phase falls in the given UTC calendar year
+export const getLunarEclipses = (year: number, observer?: Observer): LunarEclipse[] => {
+  const eclipses: LunarEclipse[] = [];
+  const start = new Date(Date.UTC(year, 0, 1));
+  const end = Date.UTC(year + 1, 0, 1);
+
+  let fullMoon = findNextPhase(start, 'Full Moon');
+  while (fullMoon.getTime() < end) {
+    const eclipse = getLunarEclipseAt(fullMoon, observer);
+    if (eclipse && eclipse.greatest.getTime() >= start.getTime() && eclipse.greatest.getTime() < end) {
+      eclipses.push(eclipse);
+    }
+    fullMoon = findNextPhase(new Date(fullMoon.getTime() + DAY_MS), 'Full Moon');
+  }
+
+  return eclipses;
+};
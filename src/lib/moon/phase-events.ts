@@ -0,0 +1,89 @@
+import { DAY_MS, normalizeDegrees, wrapDegrees } from './astro';
+import { getMoonPosition } from './moon-position';
+import { getSunPosition } from './sun';
+import type { MajorPhase, PhaseEvent } from './types';
+
+export const MAJOR_PHASES: MajorPhase[] = ['New Moon', 'First Quarter', 'Full Moon', 'Last Quarter'];
+
+// Moon − Sun apparent ecliptic longitude at each major phase
+const PHASE_ELONGATION: Record<MajorPhase, number> = {
+  'New Moon': 0,
+  'First Quarter': 90,
+  'Full Moon': 180,
+  'Last Quarter': 270
+};
+
+// Mean rate of change of the Moon − Sun longitude, degrees per day
+const MEAN_ELONGATION_RATE = 360 / 29.530588853;
+
+// Stop once successive estimates agree to within a second
+const TOLERANCE_MS = 1000;
+const MAX_ITERATIONS = 20;
+
+// Geocentric Moon − Sun apparent ecliptic longitude in [0, 360)
+export const getPhaseAngle = (date: Date): number =>
+  normalizeDegrees(getMoonPosition(date).longitude - getSunPosition(date).longitude);
+
+// Refine `guess` to the instant the phase angle equals `target` degrees
+const solveForPhaseAngle = (guess: Date, target: number): Date => {
+  let t = guess.getTime();
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const diff = wrapDegrees(getPhaseAngle(new Date(t)) - target);
+    const step = (diff / MEAN_ELONGATION_RATE) * DAY_MS;
+    t -= step;
+    if (Math.abs(step) < TOLERANCE_MS) break;
+  }
+  return new Date(Math.round(t));
+};
+
+// First instant strictly after `after` at which the Moon reaches `phase`
+export const findNextPhase = (after: Date, phase: MajorPhase): Date => {
+  const target = PHASE_ELONGATION[phase];
+  const daysAhead = normalizeDegrees(target - getPhaseAngle(after)) / MEAN_ELONGATION_RATE;
+  let event = solveForPhaseAngle(new Date(after.getTime() + daysAhead * DAY_MS), target);
+
+  // The linear guess can land on the previous lunation when `after` is within minutes of the phase
+  if (event.getTime() <= after.getTime()) {
+    event = solveForPhaseAngle(new Date(event.getTime() + (360 / MEAN_ELONGATION_RATE) * DAY_MS), target);
+  }
+  return event;
+};
+
+// Last instant at or before `before` at which the Moon reached `phase`
+export const findPreviousPhase = (before: Date, phase: MajorPhase): Date => {
+  const target = PHASE_ELONGATION[phase];
+  const daysBack = normalizeDegrees(getPhaseAngle(before) - target) / MEAN_ELONGATION_RATE;
+  let event = solveForPhaseAngle(new Date(before.getTime() - daysBack * DAY_MS), target);
+
+  if (event.getTime() > before.getTime()) {
+    event = solveForPhaseAngle(new Date(event.getTime() - (360 / MEAN_ELONGATION_RATE) * DAY_MS), target);
+  }
+  return event;
+};
+
+// The next `count` occurrences of one phase after `after`
+export const getNextPhaseDates = (after: Date, phase: MajorPhase, count: number): Date[] => {
+  const dates: Date[] = [];
+  let from = after;
+  for (let i = 0; i < count; i++) {
+    const next = findNextPhase(from, phase);
+    dates.push(next);
+    // Skip past the event so solver jitter cannot return it twice
+    from = new Date(next.getTime() + DAY_MS);
+  }
+  return dates;
+};
+
+// The next `count` major phases after `after`, in chronological order
+export const getUpcomingPhaseEvents = (after: Date, count: number): PhaseEvent[] => {
+  const events: PhaseEvent[] = [];
+  let from = after;
+  while (events.length < count) {
+    const next = MAJOR_PHASES
+      .map(phase => ({ phase, date: findNextPhase(from, phase) }))
+      .reduce((a, b) => (a.date.getTime() <= b.date.getTime() ? a : b));
+    events.push(next);
+    from = new Date(next.date.getTime() + DAY_MS);
+  }
+  return events;
+};
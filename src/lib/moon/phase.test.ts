@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { getMoonAge, getMoonPhaseDescription, getNextFullMoon, getNextMajorPhase, getNextNewMoon } from './phase';
+import { getUpcomingPhaseEvents } from './phase-events';
+import type { MajorPhase } from './types';
+
+const MINUTE_MS = 60 * 1000;
+
+// USNO "Phases of the Moon" for 2025, UT to the minute
+const PHASES_2025: [MajorPhase, string][] = [
+  ['First Quarter', '2025-01-06T23:56Z'],
+  ['Full Moon', '2025-01-13T22:27Z'],
+  ['Last Quarter', '2025-01-21T20:31Z'],
+  ['New Moon', '2025-01-29T12:36Z'],
+  ['First Quarter', '2025-02-05T08:02Z'],
+  ['Full Moon', '2025-02-12T13:53Z'],
+  ['Last Quarter', '2025-02-20T17:32Z'],
+  ['New Moon', '2025-02-28T00:45Z'],
+  ['First Quarter', '2025-03-06T16:32Z'],
+  ['Full Moon', '2025-03-14T06:55Z'],
+  ['Last Quarter', '2025-03-22T11:29Z'],
+  ['New Moon', '2025-03-29T10:58Z'],
+  ['First Quarter', '2025-04-05T02:15Z'],
+  ['Full Moon', '2025-04-13T00:22Z'],
+  ['Last Quarter', '2025-04-21T01:35Z'],
+  ['New Moon', '2025-04-27T19:31Z'],
+  ['First Quarter', '2025-05-04T13:52Z'],
+  ['Full Moon', '2025-05-12T16:56Z'],
+  ['Last Quarter', '2025-05-20T11:59Z'],
+  ['New Moon', '2025-05-27T03:02Z'],
+  ['First Quarter', '2025-06-03T03:41Z'],
+  ['Full Moon', '2025-06-11T07:44Z'],
+  ['Last Quarter', '2025-06-18T19:19Z'],
+  ['New Moon', '2025-06-25T10:31Z'],
+  ['First Quarter', '2025-07-02T19:30Z'],
+  ['Full Moon', '2025-07-10T20:37Z'],
+  ['Last Quarter', '2025-07-18T00:38Z'],
+  ['New Moon', '2025-07-24T19:11Z'],
+  ['First Quarter', '2025-08-01T12:41Z'],
+  ['Full Moon', '2025-08-09T07:55Z'],
+  ['Last Quarter', '2025-08-16T05:12Z'],
+  ['New Moon', '2025-08-23T06:06Z'],
+  ['First Quarter', '2025-08-31T06:25Z'],
+  ['Full Moon', '2025-09-07T18:09Z'],
+  ['Last Quarter', '2025-09-14T10:33Z'],
+  ['New Moon', '2025-09-21T19:54Z'],
+  ['First Quarter', '2025-09-29T23:54Z'],
+  ['Full Moon', '2025-10-07T03:48Z'],
+  ['Last Quarter', '2025-10-13T18:13Z'],
+  ['New Moon', '2025-10-21T12:25Z'],
+  ['First Quarter', '2025-10-29T16:21Z'],
+  ['Full Moon', '2025-11-05T13:19Z'],
+  ['Last Quarter', '2025-11-12T05:28Z'],
+  ['New Moon', '2025-11-20T06:47Z'],
+  ['First Quarter', '2025-11-28T06:59Z'],
+  ['Full Moon', '2025-12-04T23:14Z'],
+  ['Last Quarter', '2025-12-11T20:52Z'],
+  ['New Moon', '2025-12-20T01:43Z'],
+  ['First Quarter', '2025-12-27T19:10Z']
+];
+
+// Published times are rounded to the minute
+const expectNear = (actual: Date, expected: string, toleranceMs = 2 * MINUTE_MS) =>
+  expect(Math.abs(actual.getTime() - new Date(expected).getTime())).toBeLessThanOrEqual(toleranceMs);
+
+describe('phase instants', () => {
+  it('matches every 2025 major phase', () => {
+    const events = getUpcomingPhaseEvents(new Date('2025-01-01T00:00:00Z'), PHASES_2025.length);
+    events.forEach((event, i) => {
+      expect(event.phase).toBe(PHASES_2025[i][0]);
+      expectNear(event.date, PHASES_2025[i][1]);
+    });
+  });
+
+  it('finds the next major phase', () => {
+    const next = getNextMajorPhase(new Date('2025-01-01T00:00:00Z'));
+    expect(next.phase).toBe('First Quarter');
+    expectNear(next.date, '2025-01-06T23:56Z');
+  });
+
+  it('finds the next full and new moons strictly after the instant', () => {
+    expectNear(getNextFullMoon(new Date('2025-03-01T00:00:00Z')), '2025-03-14T06:55Z');
+    expectNear(getNextNewMoon(new Date('2025-03-01T00:00:00Z')), '2025-03-29T10:58Z');
+    // A minute after full moon the next one is a lunation away
+    expectNear(getNextFullMoon(new Date('2025-03-14T06:57:00Z')), '2025-04-13T00:22Z');
+    expectNear(getNextNewMoon(new Date('2025-03-29T11:00:00Z')), '2025-04-27T19:31Z');
+  });
+});
+
+describe('getMoonAge', () => {
+  it('counts days from the previous new moon (2024-12-30 22:27 UT)', () => {
+    expect(getMoonAge(new Date('2025-01-13T22:27:00Z'))).toBe(14);
+    expect(getMoonAge(new Date('2025-01-29T12:00:00Z'))).toBe(29.6);
+  });
+
+  it('restarts at the new moon', () => {
+    expect(getMoonAge(new Date('2025-01-29T13:00:00Z'))).toBe(0);
+    expect(getMoonAge(new Date('2025-01-31T12:36:00Z'))).toBe(2);
+  });
+});
+
+describe('getMoonPhaseDescription', () => {
+  it('names each part of the cycle', () => {
+    expect(getMoonPhaseDescription(0)).toBe('New Moon');
+    expect(getMoonPhaseDescription(0.1)).toBe('Waxing Crescent');
+    expect(getMoonPhaseDescription(0.25)).toBe('First Quarter');
+    expect(getMoonPhaseDescription(0.4)).toBe('Waxing Gibbous');
+    expect(getMoonPhaseDescription(0.5)).toBe('Full Moon');
+    expect(getMoonPhaseDescription(0.6)).toBe('Waning Gibbous');
+    expect(getMoonPhaseDescription(0.75)).toBe('Last Quarter');
+    expect(getMoonPhaseDescription(0.9)).toBe('Waning Crescent');
+    expect(getMoonPhaseDescription(0.99)).toBe('New Moon');
+  });
+});
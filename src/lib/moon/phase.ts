@@ -0,0 +1,26 @@
+import { DAY_MS } from './astro';
+import { findNextPhase, findPreviousPhase, getUpcomingPhaseEvents } from './phase-events';
+import type { PhaseEvent, PhaseName } from './types';
+
+export const getMoonPhaseDescription = (phase: number): PhaseName => {
+  if (phase < 0.03 || phase > 0.97) return 'New Moon';
+  if (phase < 0.22) return 'Waxing Crescent';
+  if (phase < 0.28) return 'First Quarter';
+  if (phase < 0.46) return 'Waxing Gibbous';
+  if (phase < 0.54) return 'Full Moon';
+  if (phase < 0.72) return 'Waning Gibbous';
+  if (phase < 0.78) return 'Last Quarter';
+  return 'Waning Crescent';
+};
+
+// Days since the most recent new moon
+export const getMoonAge = (date: Date): number => {
+  const ageMs = date.getTime() - findPreviousPhase(date, 'New Moon').getTime();
+  return Math.round((ageMs / DAY_MS) * 10) / 10;
+};
+
+export const getNextMajorPhase = (now: Date): PhaseEvent => getUpcomingPhaseEvents(now, 1)[0];
+
+export const getNextFullMoon = (now: Date): Date => findNextPhase(now, 'Full Moon');
+
+export const getNextNewMoon = (now: Date): Date => findNextPhase(now, 'New Moon');
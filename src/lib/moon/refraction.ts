@@ -0,0 +1,24 @@
+import { tand } from './astro';
+import type { Atmosphere, EphemerisOptions } from './types';
+
+export const STANDARD_ATMOSPHERE: Atmosphere = { temperature: 10, pressure: 1010 };
+
+// Below this the Sæmundsson fit diverges; hold the refraction constant instead
+const MIN_REFRACTION_ALTITUDE = -1.9;
+
+// Refraction in degrees to add to a true (airless) altitude, after Sæmundsson (Meeus 16.4)
+export const getRefraction = (altitude: number, atmosphere: Atmosphere = STANDARD_ATMOSPHERE): number => {
+  const h = Math.max(altitude, MIN_REFRACTION_ALTITUDE);
+  const arcminutes = 1.02 / tand(h + 10.3 / (h + 5.11));
+  const correction = (atmosphere.pressure / 1010) * (283 / (273 + atmosphere.temperature));
+  return (arcminutes * correction) / 60;
+};
+
+// Apparent altitude of a body at true altitude `altitude` under the given options
+export const refractAltitude = (altitude: number, options: EphemerisOptions = {}): number => {
+  if (options.atmosphere === null) return altitude;
+  return altitude + getRefraction(altitude, options.atmosphere ?? STANDARD_ATMOSPHERE);
+};
+
+// Depression of the sea horizon in degrees for an observer `elevation` metres up, refraction included
+export const getHorizonDip = (elevation = 0): number => 0.0293 * Math.sqrt(Math.max(elevation, 0));
@@ -0,0 +1,95 @@
+import { DAY_MS } from './astro';
+
+export interface HorizonCrossing {
+  date: Date;
+  // true when the function goes from negative to positive
+  rising: boolean;
+}
+
+// Coarse scan step; the Moon's altitude changes by at most ~2.5° in this time
+const SCAN_STEP_MS = 10 * 60 * 1000;
+const BISECTION_TOLERANCE_MS = 1000;
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+// Narrow a sign change of `fn` between `a` and `b` down to one second
+export const refineCrossing = (fn: (date: Date) => number, a: number, b: number): Date => {
+  let lo = a;
+  let hi = b;
+  const loSign = fn(new Date(lo)) > 0;
+  while (hi - lo > BISECTION_TOLERANCE_MS) {
+    const mid = (lo + hi) / 2;
+    if (fn(new Date(mid)) > 0 === loSign) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return new Date(Math.round((lo + hi) / 2));
+};
+
+// Instant of the least value of `fn` between `a` and `b`, to one second; `fn` must have a single minimum there
+export const findMinimum = (fn: (date: Date) => number, a: number, b: number): Date => {
+  let lo = a;
+  let hi = b;
+  while (hi - lo > BISECTION_TOLERANCE_MS) {
+    const c = hi - GOLDEN_RATIO * (hi - lo);
+    const d = lo + GOLDEN_RATIO * (hi - lo);
+    if (fn(new Date(c)) < fn(new Date(d))) {
+      hi = d;
+    } else {
+      lo = c;
+    }
+  }
+  return new Date(Math.round((lo + hi) / 2));
+};
+
+// Every zero crossing of `fn` (e.g. altitude above the horizon) between `start` and `end`
+export const findCrossings = (
+  fn: (date: Date) => number,
+  start: Date,
+  end: Date,
+  stepMs = SCAN_STEP_MS
+): HorizonCrossing[] => {
+  const crossings: HorizonCrossing[] = [];
+  let t0 = start.getTime();
+  let v0 = fn(start);
+
+  while (t0 < end.getTime()) {
+    const t1 = Math.min(t0 + stepMs, end.getTime());
+    const v1 = fn(new Date(t1));
+    if (v0 <= 0 !== v1 <= 0) {
+      crossings.push({ date: refineCrossing(fn, t0, t1), rising: v1 > 0 });
+    }
+    t0 = t1;
+    v0 = v1;
+  }
+
+  return crossings;
+};
+
+// First rising and first setting crossing of `fn` within `searchDays` after `start`
+export const findNextRiseSet = (
+  fn: (date: Date) => number,
+  start: Date,
+  searchDays: number
+): { rise: Date | null; set: Date | null } => {
+  let rise: Date | null = null;
+  let set: Date | null = null;
+  let t0 = start.getTime();
+  let v0 = fn(start);
+  const end = start.getTime() + searchDays * DAY_MS;
+
+  while (t0 < end && (!rise || !set)) {
+    const t1 = Math.min(t0 + SCAN_STEP_MS, end);
+    const v1 = fn(new Date(t1));
+    if (v0 <= 0 !== v1 <= 0) {
+      const date = refineCrossing(fn, t0, t1);
+      if (v1 > 0 && !rise) rise = date;
+      if (v1 <= 0 && !set) set = date;
+    }
+    t0 = t1;
+    v0 = v1;
+  }
+
+  return { rise, set };
+};
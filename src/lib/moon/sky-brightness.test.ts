@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getBortleClass,
+  getLimitingMagnitude,
+  getSkyBrightness,
+  NATURAL_SKY_BRIGHTNESS,
+  type SkyBrightnessInputs
+} from './sky-brightness';
+
+const MOONLESS_NIGHT: SkyBrightnessInputs = {
+  moonAltitude: -90,
+  moonAzimuth: 0,
+  moonPhaseAngle: 0,
+  sunAltitude: -90,
+  artificial: 0,
+  extinction: 0.2
+};
+
+const FULL_MOON_HIGH = { ...MOONLESS_NIGHT, moonAltitude: 60, moonAzimuth: 180 };
+
+describe('getSkyBrightness', () => {
+  it('gives the natural sky overhead on a dark, moonless night', () => {
+    expect(getSkyBrightness(MOONLESS_NIGHT, 90, 0)).toBeCloseTo(NATURAL_SKY_BRIGHTNESS, 6);
+  });
+
+  it('brightens the sky under a high full Moon by several magnitudes', () => {
+    const zenith = getSkyBrightness(FULL_MOON_HIGH, 90, 0);
+    expect(zenith).toBeLessThan(19.5);
+    expect(zenith).toBeGreaterThan(17);
+  });
+
+  it('brightens the sky by the artificial ratio', () => {
+    // Light pollution equal to the natural sky doubles it, about 0.75 mag
+    expect(getSkyBrightness({ ...MOONLESS_NIGHT, artificial: 1 }, 90, 0)).toBeCloseTo(
+      NATURAL_SKY_BRIGHTNESS - 2.5 * Math.log10(2),
+      4
+    );
+  });
+});
+
+describe('getBortleClass', () => {
+  it('maps zenith brightness to classes', () => {
+    expect(getBortleClass(22.0)).toBe(1);
+    expect(getBortleClass(21.9)).toBe(2);
+    expect(getBortleClass(21.0)).toBe(4);
+    expect(getBortleClass(19.0)).toBe(6);
+    expect(getBortleClass(17.0)).toBe(9);
+  });
+});
+
+describe('getLimitingMagnitude', () => {
+  it('reaches past sixth magnitude under a dark sky and falls under moonlight', () => {
+    expect(getLimitingMagnitude(NATURAL_SKY_BRIGHTNESS)).toBeGreaterThan(6);
+    expect(getLimitingMagnitude(getSkyBrightness(FULL_MOON_HIGH, 90, 0))).toBeLessThan(5.5);
+  });
+});
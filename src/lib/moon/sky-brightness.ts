@@ -0,0 +1,118 @@
+// Night-sky surface brightness in V mag/arcsec²: the natural sky, light pollution, twilight and scattered
+// moonlight (Krisciunas & Schaefer 1991, PASP 103, 1033), and the naked-eye limiting magnitude that follows.
+import { angularSeparation, cosd } from './astro';
+import { getMoonHorizonPosition, getMoonIllumination } from './ephemeris';
+import { getSunHorizonPosition } from './sun';
+import type { EphemerisOptions, Observer } from './types';
+
+export interface SkyBrightnessInputs {
+  // Apparent altitude and azimuth of the Moon, degrees
+  moonAltitude: number;
+  moonAzimuth: number;
+  // Sun–Moon–Earth angle, degrees; 0 at full moon
+  moonPhaseAngle: number;
+  // Apparent altitude of the Sun, degrees
+  sunAltitude: number;
+  // Artificial zenith brightness as a multiple of the natural sky, from the light pollution grid
+  artificial: number;
+  // V-band extinction coefficient, magnitudes per airmass
+  extinction: number;
+}
+
+// Moonless, unpolluted zenith sky at solar minimum
+export const NATURAL_SKY_BRIGHTNESS = 22.0;
+// Typical of a low-altitude site on a clear night; K&S used 0.172 for Mauna Kea
+export const DEFAULT_EXTINCTION = 0.2;
+
+// Zenith sky brightness through twilight against the Sun's altitude, mag/arcsec²; below −18° the Sun adds nothing
+const TWILIGHT_TABLE: [number, number][] = [
+  [-18, 22.0],
+  [-15, 21.0],
+  [-12, 19.5],
+  [-9, 17.5],
+  [-6, 15.5],
+  [-3, 13.0],
+  [0, 10.5]
+];
+
+// Lower SQM bounds of Bortle classes 1 to 8; anything brighter is class 9
+const BORTLE_LIMITS = [21.99, 21.89, 21.69, 20.49, 19.5, 18.94, 18.38, 17.8];
+
+// K&S work in nanolamberts
+const toNanolamberts = (magnitude: number): number => 34.08 * Math.exp(20.7233 - 0.92104 * magnitude);
+const toMagnitude = (nanolamberts: number): number => (20.7233 - Math.log(nanolamberts / 34.08)) / 0.92104;
+
+// Relative optical path through the atmosphere, K&S eq. 3; the horizon is taken as the worst case
+const airmass = (altitude: number): number => {
+  const z = 90 - Math.max(0, altitude);
+  return 1 / Math.sqrt(1 - 0.96 * (1 - cosd(z) ** 2));
+};
+
+const getTwilightBrightness = (sunAltitude: number): number => {
+  if (sunAltitude <= TWILIGHT_TABLE[0][0]) return 0;
+  const index = TWILIGHT_TABLE.findIndex(([altitude]) => altitude >= sunAltitude);
+  if (index === -1) return toNanolamberts(TWILIGHT_TABLE[TWILIGHT_TABLE.length - 1][1]);
+  const [a0, m0] = TWILIGHT_TABLE[index - 1];
+  const [a1, m1] = TWILIGHT_TABLE[index];
+  const magnitude = m0 + ((m1 - m0) * (sunAltitude - a0)) / (a1 - a0);
+  return Math.max(0, toNanolamberts(magnitude) - toNanolamberts(NATURAL_SKY_BRIGHTNESS));
+};
+
+// Moonlight scattered into the line of sight, K&S eqs. 15–21
+const getMoonlight = (inputs: SkyBrightnessInputs, altitude: number, azimuth: number): number => {
+  if (inputs.moonAltitude <= 0) return 0;
+  const alpha = Math.abs(inputs.moonPhaseAngle);
+  const illuminance = 10 ** (-0.4 * (3.84 + 0.026 * alpha + 4e-9 * alpha ** 4));
+  const rho = angularSeparation(azimuth, altitude, inputs.moonAzimuth, inputs.moonAltitude);
+  const scattering = 10 ** 5.36 * (1.06 + cosd(rho) ** 2) + 10 ** (6.15 - rho / 40);
+  const k = inputs.extinction;
+  return (
+    scattering *
+    illuminance *
+    10 ** (-0.4 * k * airmass(inputs.moonAltitude)) *
+    (1 - 10 ** (-0.4 * k * airmass(altitude)))
+  );
+};
+
+export const getSkyBrightnessInputs = (
+  date: Date,
+  observer: Observer,
+  artificial: number,
+  options: EphemerisOptions = {},
+  extinction = DEFAULT_EXTINCTION
+): SkyBrightnessInputs => {
+  const moon = getMoonHorizonPosition(date, observer, options);
+  return {
+    moonAltitude: moon.altitude,
+    moonAzimuth: moon.azimuth,
+    moonPhaseAngle: getMoonIllumination(date).phaseAngle,
+    sunAltitude: getSunHorizonPosition(date, observer, options).altitude,
+    artificial,
+    extinction
+  };
+};
+
+// Sky surface brightness towards `altitude`, `azimuth`, in V mag/arcsec² (larger is darker)
+export const getSkyBrightness = (inputs: SkyBrightnessInputs, altitude: number, azimuth: number): number => {
+  const X = airmass(altitude);
+  // Airglow and zodiacal light brighten towards the horizon until extinction wins, K&S eq. 2
+  const natural = toNanolamberts(NATURAL_SKY_BRIGHTNESS) * X * 10 ** (-0.4 * inputs.extinction * (X - 1));
+  const total =
+    natural * (1 + inputs.artificial) +
+    getTwilightBrightness(inputs.sunAltitude) +
+    getMoonlight(inputs, altitude, azimuth);
+  return toMagnitude(total);
+};
+
+// Faintest star visible to the naked eye against a sky of this brightness, at `altitude`
+export const getLimitingMagnitude = (
+  skyBrightness: number,
+  altitude = 90,
+  extinction = DEFAULT_EXTINCTION
+): number => 7.93 - 5 * Math.log10(10 ** (4.316 - skyBrightness / 5) + 1) - extinction * (airmass(altitude) - 1);
+
+// Bortle dark-sky class, 1 (pristine) to 9 (inner city), from the zenith sky brightness
+export const getBortleClass = (zenithSkyBrightness: number): number => {
+  const index = BORTLE_LIMITS.findIndex(limit => zenithSkyBrightness >= limit);
+  return index === -1 ? 9 : index + 1;
+};
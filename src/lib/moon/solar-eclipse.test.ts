@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { getSolarEclipseAt } from './solar-eclipse';
+import type { Observer } from './types';
+
+const DALLAS: Observer = { latitude: 32.7767, longitude: -96.797 };
+
+describe('getSolarEclipseAt', () => {
+  // Total eclipse of 2024 April 8; Dallas was inside the path of totality
+  it('finds totality inside the central path', () => {
+    const eclipse = getSolarEclipseAt(new Date('2024-04-08T18:21:00Z'), DALLAS);
+    expect(eclipse?.kind).toBe('total');
+    expect(eclipse?.local?.kind).toBe('total');
+    expect(eclipse?.local?.obscuration).toBe(1);
+    expect(eclipse?.local?.visible).toBe(true);
+  });
+
+  // Partial eclipse of 2025 March 29, over before sunrise in Texas
+  it('flags an eclipse that happens with the Sun below the horizon', () => {
+    const eclipse = getSolarEclipseAt(new Date('2025-03-29T10:58:00Z'), DALLAS);
+    expect(eclipse?.kind).toBe('partial');
+    expect(eclipse?.local?.obscuration).toBeGreaterThan(0);
+    expect(eclipse?.local?.visible).toBe(false);
+  });
+});
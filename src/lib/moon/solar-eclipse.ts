@@ -0,0 +1,341 @@
+import {
+  acosd,
+  angularSeparation,
+  asind,
+  atan2d,
+  cosd,
+  DAY_MS,
+  EARTH_RADIUS_KM,
+  greenwichSiderealTime,
+  RAD,
+  sind
+} from './astro';
+import { MOON_RADIUS_KM } from './ephemeris';
+import { getMoonPosition } from './moon-position';
+import { findNextPhase } from './phase-events';
+import { findMinimum, refineCrossing } from './rise-set';
+import { getSunHorizonPosition, getSunPosition, SUN_RADIUS_KM } from './sun';
+import { EARTH_FLATTENING_RATIO, getTopocentricPosition } from './topocentric';
+import type { GeocentricPosition, Observer } from './types';
+
+export type SolarEclipseKind = 'partial' | 'annular' | 'total' | 'hybrid';
+
+export type SolarEclipseContactName = 'C1' | 'C2' | 'Maximum' | 'C3' | 'C4';
+
+export interface SolarEclipseContact {
+  name: SolarEclipseContactName;
+  date: Date;
+  // Apparent altitude of the Sun's centre, degrees
+  sunAltitude: number;
+  sunAboveHorizon: boolean;
+}
+
+export interface LocalSolarEclipse {
+  // What the observer sees: totality or annularity only inside the central path
+  kind: Exclude<SolarEclipseKind, 'hybrid'>;
+  maximum: Date;
+  // Fraction of the Sun's diameter covered at maximum
+  magnitude: number;
+  // Fraction of the Sun's disc area covered at maximum
+  obscuration: number;
+  sunAltitude: number;
+  contacts: SolarEclipseContact[];
+  // Whether the Sun is up at any contact; when it is not, the eclipse happens entirely below the horizon
+  visible: boolean;
+}
+
+export interface CentralPathPoint {
+  date: Date;
+  latitude: number;
+  longitude: number;
+  // Whether the umbra (rather than the antumbra) reaches the ground here
+  total: boolean;
+  // [latitude, longitude] of the path edges, null where the edge misses the Earth
+  northLimit: [number, number] | null;
+  southLimit: [number, number] | null;
+  // Approximate width of the path, km
+  width: number | null;
+}
+
+export interface SolarEclipse {
+  kind: SolarEclipseKind;
+  // Instant the shadow axis passes closest to the Earth's centre
+  greatest: Date;
+  // Least distance of the shadow axis from the Earth's centre in Earth radii, positive north
+  gamma: number;
+  // Track of the shadow axis across the Earth; empty for partial eclipses
+  path: CentralPathPoint[];
+  // Present when an observer was given and the eclipse is seen from there
+  local: LocalSolarEclipse | null;
+}
+
+type Vector = [number, number, number];
+
+interface ShadowAxis {
+  // Moon centre in Earth-fixed coordinates, km
+  moon: Vector;
+  // Unit vector along the axis, pointing away from the Sun
+  direction: Vector;
+  // Rate at which the umbral and penumbral cones narrow / widen with distance behind the Moon
+  umbraSlope: number;
+  penumbraSlope: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+// Window around new moon in which greatest eclipse is sought
+const SEARCH_WINDOW_MS = 6 * HOUR_MS;
+// Longest span from first contact to maximum anywhere on Earth is under 4 hours
+const CONTACT_WINDOW_MS = 4 * HOUR_MS;
+// Totality and annularity last at most ~12.5 minutes
+const CENTRAL_WINDOW_MS = HOUR_MS;
+const PATH_WINDOW_MS = 3 * HOUR_MS;
+const PATH_STEP_MS = 60 * 1000;
+
+const subtract = (a: Vector, b: Vector): Vector => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const add = (a: Vector, b: Vector): Vector => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+const scale = (a: Vector, k: number): Vector => [a[0] * k, a[1] * k, a[2] * k];
+const dot = (a: Vector, b: Vector): number => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vector, b: Vector): Vector => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0]
+];
+const length = (a: Vector): number => Math.sqrt(dot(a, a));
+const unit = (a: Vector): Vector => scale(a, 1 / length(a));
+
+// Geocentric position as a vector in km, with x towards longitude 0 on the equator
+const toEarthFixed = (p: GeocentricPosition, siderealTime: number): Vector => [
+  p.distance * cosd(p.declination) * cosd(p.rightAscension - siderealTime),
+  p.distance * cosd(p.declination) * sind(p.rightAscension - siderealTime),
+  p.distance * sind(p.declination)
+];
+
+const getShadowAxis = (date: Date): ShadowAxis => {
+  const siderealTime = greenwichSiderealTime(date);
+  const sun = toEarthFixed(getSunPosition(date), siderealTime);
+  const moon = toEarthFixed(getMoonPosition(date), siderealTime);
+  const sunToMoon = subtract(moon, sun);
+  const separation = length(sunToMoon);
+  return {
+    moon,
+    direction: scale(sunToMoon, 1 / separation),
+    umbraSlope: Math.tan(Math.asin((SUN_RADIUS_KM - MOON_RADIUS_KM) / separation)),
+    penumbraSlope: Math.tan(Math.asin((SUN_RADIUS_KM + MOON_RADIUS_KM) / separation))
+  };
+};
+
+// Signed radius of the umbra at `distance` km behind the Moon; negative once it has become the antumbra
+const umbralRadius = (axis: ShadowAxis, distance: number): number => MOON_RADIUS_KM - distance * axis.umbraSlope;
+
+interface SurfacePoint {
+  latitude: number;
+  longitude: number;
+  // Earth-fixed position, km
+  point: Vector;
+  // Distance travelled along the line to reach the surface, km
+  distance: number;
+}
+
+// First point where the line `origin + s·direction` meets the ellipsoid
+const intersectEarth = (origin: Vector, direction: Vector): SurfacePoint | null => {
+  // Stretching z turns the ellipsoid into a sphere of equatorial radius
+  const o: Vector = [origin[0], origin[1], origin[2] / EARTH_FLATTENING_RATIO];
+  const d: Vector = [direction[0], direction[1], direction[2] / EARTH_FLATTENING_RATIO];
+  const a = dot(d, d);
+  const b = 2 * dot(o, d);
+  const c = dot(o, o) - EARTH_RADIUS_KM * EARTH_RADIUS_KM;
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return null;
+
+  const distance = (-b - Math.sqrt(discriminant)) / (2 * a);
+  const point = add(origin, scale(direction, distance));
+  const [x, y, z] = point;
+  return {
+    latitude: atan2d(z, EARTH_FLATTENING_RATIO * EARTH_FLATTENING_RATIO * Math.hypot(x, y)),
+    longitude: atan2d(y, x),
+    point,
+    distance
+  };
+};
+
+// Perpendicular offset of the shadow axis from the Earth's centre, km
+const getAxisOffset = (axis: ShadowAxis): Vector =>
+  subtract(axis.moon, scale(axis.direction, dot(axis.moon, axis.direction)));
+
+const getGamma = (axis: ShadowAxis): number => {
+  const offset = getAxisOffset(axis);
+  return (Math.sign(offset[2]) * length(offset)) / EARTH_RADIUS_KM;
+};
+
+const getPathPoint = (date: Date): CentralPathPoint | null => {
+  const axis = getShadowAxis(date);
+  const center = intersectEarth(axis.moon, axis.direction);
+  if (!center) return null;
+
+  const radius = umbralRadius(axis, center.distance);
+  let northLimit: [number, number] | null = null;
+  let southLimit: [number, number] | null = null;
+  let width: number | null = null;
+
+  // The path edges are where the shadow's edge just grazes a point on the ground: a shadow radius from the
+  // axis, at right angles to the axis's motion relative to that ground point
+  const next = getShadowAxis(new Date(date.getTime() + PATH_STEP_MS));
+  const nextCenter = intersectEarth(next.moon, next.direction);
+  if (nextCenter) {
+    const relative = subtract(next.moon, center.point);
+    const across = unit(cross(next.direction, relative));
+    const north = across[2] > 0 ? 1 : -1;
+    const [northEdge, southEdge] = [north, -north].map(side =>
+      intersectEarth(add(axis.moon, scale(across, side * Math.abs(radius))), axis.direction)
+    );
+    if (northEdge) northLimit = [northEdge.latitude, northEdge.longitude];
+    if (southEdge) southLimit = [southEdge.latitude, southEdge.longitude];
+    if (northEdge && southEdge) {
+      // Edge points need not sit abreast of the centre, so measure their separation across the track
+      const track = unit(subtract(nextCenter.point, center.point));
+      width = length(cross(subtract(northEdge.point, southEdge.point), track));
+    }
+  }
+
+  return {
+    date,
+    latitude: center.latitude,
+    longitude: center.longitude,
+    total: radius > 0,
+    northLimit,
+    southLimit,
+    width
+  };
+};
+
+const getCentralPath = (greatest: Date): CentralPathPoint[] => {
+  const path: CentralPathPoint[] = [];
+  for (let t = greatest.getTime() - PATH_WINDOW_MS; t <= greatest.getTime() + PATH_WINDOW_MS; t += PATH_STEP_MS) {
+    const point = getPathPoint(new Date(t));
+    if (point) path.push(point);
+  }
+  return path;
+};
+
+// Area of the Sun's disc covered by the Moon's, as a fraction (circle–circle overlap)
+const getObscuration = (separation: number, sun: number, moon: number): number => {
+  if (separation >= sun + moon) return 0;
+  if (separation <= Math.abs(sun - moon)) return Math.min(1, (moon * moon) / (sun * sun));
+
+  const d = separation;
+  const sunPart = sun * sun * acosd((d * d + sun * sun - moon * moon) / (2 * d * sun)) * RAD;
+  const moonPart = moon * moon * acosd((d * d + moon * moon - sun * sun) / (2 * d * moon)) * RAD;
+  const kite = 0.5 * Math.sqrt((-d + sun + moon) * (d + sun - moon) * (d - sun + moon) * (d + sun + moon));
+  return (sunPart + moonPart - kite) / (Math.PI * sun * sun);
+};
+
+// Topocentric Sun and Moon separation and semi-diameters, degrees
+const getLocalDiscs = (date: Date, observer: Observer) => {
+  const sun = getTopocentricPosition(date, observer, getSunPosition(date));
+  const moon = getTopocentricPosition(date, observer, getMoonPosition(date));
+  return {
+    separation: angularSeparation(sun.rightAscension, sun.declination, moon.rightAscension, moon.declination),
+    sun: asind(SUN_RADIUS_KM / sun.distance),
+    moon: asind(MOON_RADIUS_KM / moon.distance)
+  };
+};
+
+const CONTACT_ORDER: SolarEclipseContactName[] = ['C1', 'C2', 'Maximum', 'C3', 'C4'];
+
+// Circumstances of the eclipse near `greatest` as seen by `observer`, or null when the Moon misses the Sun there
+export const getLocalSolarEclipse = (greatest: Date, observer: Observer): LocalSolarEclipse | null => {
+  const t = greatest.getTime();
+  const maximum = findMinimum(d => getLocalDiscs(d, observer).separation, t - CONTACT_WINDOW_MS, t + CONTACT_WINDOW_MS);
+  const discs = getLocalDiscs(maximum, observer);
+  if (discs.separation >= discs.sun + discs.moon) return null;
+
+  const m = maximum.getTime();
+  const times: { name: SolarEclipseContactName; date: Date }[] = [{ name: 'Maximum', date: maximum }];
+  const outer = (d: Date) => {
+    const local = getLocalDiscs(d, observer);
+    return local.separation - (local.sun + local.moon);
+  };
+  times.push({ name: 'C1', date: refineCrossing(outer, m - CONTACT_WINDOW_MS, m) });
+  times.push({ name: 'C4', date: refineCrossing(outer, m, m + CONTACT_WINDOW_MS) });
+
+  const central = discs.separation < Math.abs(discs.moon - discs.sun);
+  if (central) {
+    const inner = (d: Date) => {
+      const local = getLocalDiscs(d, observer);
+      return local.separation - Math.abs(local.moon - local.sun);
+    };
+    times.push({ name: 'C2', date: refineCrossing(inner, m - CENTRAL_WINDOW_MS, m) });
+    times.push({ name: 'C3', date: refineCrossing(inner, m, m + CENTRAL_WINDOW_MS) });
+  }
+  times.sort((a, b) => CONTACT_ORDER.indexOf(a.name) - CONTACT_ORDER.indexOf(b.name));
+
+  const contacts = times.map(({ name, date }) => {
+    const sun = getSunHorizonPosition(date, observer);
+    return { name, date, sunAltitude: sun.altitude, sunAboveHorizon: sun.upperLimbAltitude > sun.horizon };
+  });
+
+  return {
+    kind: !central ? 'partial' : discs.moon > discs.sun ? 'total' : 'annular',
+    maximum,
+    magnitude: (discs.sun + discs.moon - discs.separation) / (2 * discs.sun),
+    obscuration: getObscuration(discs.separation, discs.sun, discs.moon),
+    sunAltitude: getSunHorizonPosition(maximum, observer).altitude,
+    contacts,
+    visible: contacts.some(contact => contact.sunAboveHorizon)
+  };
+};
+
+const getEclipseKind = (axis: ShadowAxis, gamma: number, path: CentralPathPoint[]): SolarEclipseKind => {
+  if (path.length > 0) {
+    const total = path.some(p => p.total);
+    const annular = path.some(p => !p.total);
+    return total && annular ? 'hybrid' : total ? 'total' : 'annular';
+  }
+
+  // Non-central eclipses, where only the edge of the umbra or antumbra grazes a polar region
+  const radius = umbralRadius(axis, -dot(axis.moon, axis.direction));
+  if (Math.abs(gamma) < 1 + Math.abs(radius) / EARTH_RADIUS_KM) {
+    return radius > 0 ? 'total' : 'annular';
+  }
+  return 'partial';
+};
+
+// The eclipse at the new moon `newMoon`, or null when the penumbra misses the Earth
+export const getSolarEclipseAt = (newMoon: Date, observer?: Observer): SolarEclipse | null => {
+  const greatest = findMinimum(
+    d => Math.abs(getGamma(getShadowAxis(d))),
+    newMoon.getTime() - SEARCH_WINDOW_MS,
+    newMoon.getTime() + SEARCH_WINDOW_MS
+  );
+  const axis = getShadowAxis(greatest);
+  const gamma = getGamma(axis);
+  const penumbralRadius = MOON_RADIUS_KM - dot(axis.moon, axis.direction) * axis.penumbraSlope;
+  if (Math.abs(gamma) >= 1 + penumbralRadius / EARTH_RADIUS_KM) return null;
+
+  const path = getCentralPath(greatest);
+  return {
+    kind: getEclipseKind(axis, gamma, path),
+    greatest,
+    gamma,
+    path,
+    local: observer ? getLocalSolarEclipse(greatest, observer) : null
+  };
+};
+
+// Every solar eclipse whose greatest phase falls in the given UTC calendar year
+export const getSolarEclipses = (year: number, observer?: Observer): SolarEclipse[] => {
+  const eclipses: SolarEclipse[] = [];
+  const start = new Date(Date.UTC(year, 0, 1));
+  const end = Date.UTC(year + 1, 0, 1);
+
+  let newMoon = findNextPhase(start, 'New Moon');
+  while (newMoon.getTime() < end) {
+    const eclipse = getSolarEclipseAt(newMoon, observer);
+    if (eclipse && eclipse.greatest.getTime() >= start.getTime() && eclipse.greatest.getTime() < end) {
+      eclipses.push(eclipse);
+    }
+    newMoon = findNextPhase(new Date(newMoon.getTime() + DAY_MS), 'New Moon');
+  }
+
+  return eclipses;
+};
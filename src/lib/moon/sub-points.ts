@@ -0,0 +1,56 @@
+// Where on Earth the Moon and Sun are overhead, and the caps of the globe from which each is above the horizon.
+import { asind, EARTH_RADIUS_KM, greenwichSiderealTime, wrapDegrees } from './astro';
+import { MOON_RADIUS_KM } from './ephemeris';
+import { getMoonPosition } from './moon-position';
+import { getRefraction } from './refraction';
+import { getSunPosition, SUN_RADIUS_KM } from './sun';
+import type { GeocentricPosition } from './types';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// Every point within `radius` degrees of great circle from `centre`
+export interface SphericalCap {
+  centre: GeoPoint;
+  radius: number;
+}
+
+// True altitude of a limb that refraction lifts exactly onto the sea horizon, about −0.57°
+const HORIZON_LIMB_ALTITUDE = -getRefraction(-getRefraction(0));
+
+const getSubPoint = ({ rightAscension, declination }: GeocentricPosition, date: Date): GeoPoint => ({
+  latitude: declination,
+  longitude: wrapDegrees(rightAscension - greenwichSiderealTime(date))
+});
+
+// The point with the Moon at its zenith
+export const getSubLunarPoint = (date: Date): GeoPoint => getSubPoint(getMoonPosition(date), date);
+
+// The point with the Sun at its zenith
+export const getSubSolarPoint = (date: Date): GeoPoint => getSubPoint(getSunPosition(date), date);
+
+// Sea-level places where the Moon's upper limb is above the horizon, parallax and refraction included. Parallax
+// drops the Moon by nearly a degree, so the cap is a little smaller than a hemisphere.
+export const getMoonUpCap = (date: Date): SphericalCap => {
+  const moon = getMoonPosition(date);
+  const parallax = asind(EARTH_RADIUS_KM / moon.distance);
+  const semiDiameter = asind(MOON_RADIUS_KM / moon.distance);
+  // Geocentric altitude of the Moon's centre when its upper limb sits on the horizon
+  const altitude = HORIZON_LIMB_ALTITUDE - semiDiameter + parallax;
+  return { centre: getSubPoint(moon, date), radius: 90 - altitude };
+};
+
+// Places where the Sun's centre is more than `depression` degrees below the horizon, 0 being the geometric
+// terminator; 18 gives astronomical night
+export const getNightCap = (date: Date, depression = 0): SphericalCap => {
+  const { latitude, longitude } = getSubSolarPoint(date);
+  return { centre: { latitude: -latitude, longitude: wrapDegrees(longitude + 180) }, radius: 90 - depression };
+};
+
+// Places where the Sun has set, upper limb and refraction included
+export const getSunDownCap = (date: Date): SphericalCap => {
+  const sun = getSunPosition(date);
+  return getNightCap(date, -HORIZON_LIMB_ALTITUDE + asind(SUN_RADIUS_KM / sun.distance));
+};
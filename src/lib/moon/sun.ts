@@ -0,0 +1,91 @@
+import {
+  asind,
+  AU_KM,
+  cosd,
+  eclipticToEquatorial,
+  julianCenturies,
+  normalizeDegrees,
+  nutation,
+  sind,
+  toJulianEphemerisDay,
+  trueObliquity
+} from './astro';
+import { getHorizonDip, refractAltitude } from './refraction';
+import { findNextRiseSet } from './rise-set';
+import { getTopocentricPosition } from './topocentric';
+import type { EphemerisOptions, GeocentricPosition, Observer } from './types';
+
+export const SUN_RADIUS_KM = 696000;
+
+export interface SunHorizonPosition {
+  // Apparent (refracted) altitude of the Sun's centre, degrees
+  altitude: number;
+  // Airless altitude of the centre, degrees
+  geometricAltitude: number;
+  // Apparent altitude of the Sun's upper limb, degrees
+  upperLimbAltitude: number;
+  // Apparent altitude of the visible horizon, degrees
+  horizon: number;
+  azimuth: number;
+  semiDiameter: number;
+}
+
+// Apparent geocentric position of the Sun (Meeus ch. 25), good to about 0.01°
+export const getSunPosition = (date: Date): GeocentricPosition => {
+  const T = julianCenturies(toJulianEphemerisDay(date));
+
+  const L0 = 280.46646 + 36000.76983 * T + 0.0003032 * T * T;
+  const M = 357.52911 + 35999.05029 * T - 0.0001537 * T * T;
+  const e = 0.016708634 - 0.000042037 * T - 0.0000001267 * T * T;
+
+  const C =
+    (1.914602 - 0.004817 * T - 0.000014 * T * T) * sind(M) +
+    (0.019993 - 0.000101 * T) * sind(2 * M) +
+    0.000289 * sind(3 * M);
+
+  const trueLongitude = L0 + C;
+  const trueAnomaly = M + C;
+  const radius = (1.000001018 * (1 - e * e)) / (1 + e * cosd(trueAnomaly));
+
+  // Aberration plus nutation in longitude
+  const longitude = normalizeDegrees(trueLongitude - 0.00569 + nutation(T).longitude);
+  const { rightAscension, declination } = eclipticToEquatorial(longitude, 0, trueObliquity(T));
+
+  return {
+    longitude,
+    latitude: 0,
+    distance: radius * AU_KM,
+    rightAscension,
+    declination
+  };
+};
+
+export const getSunHorizonPosition = (
+  date: Date,
+  observer: Observer,
+  options: EphemerisOptions = {}
+): SunHorizonPosition => {
+  const topo = getTopocentricPosition(date, observer, getSunPosition(date));
+  const semiDiameter = asind(SUN_RADIUS_KM / topo.distance);
+  return {
+    altitude: refractAltitude(topo.altitude, options),
+    geometricAltitude: topo.altitude,
+    upperLimbAltitude: refractAltitude(topo.altitude + semiDiameter, options),
+    horizon: -getHorizonDip(observer.elevation),
+    azimuth: topo.azimuth,
+    semiDiameter
+  };
+};
+
+// Upper-limb sunrise and sunset after `date`, refined to the second
+export const findNextSunRiseSet = (
+  date: Date,
+  observer: Observer,
+  options: EphemerisOptions = {},
+  searchDays = 1
+): { rise: Date | null; set: Date | null } => {
+  return findNextRiseSet(d => {
+    const position = getSunHorizonPosition(d, observer, options);
+    return position.upperLimbAltitude - position.horizon;
+  }, date, searchDays);
+};
@@ -0,0 +1,55 @@
+import { atan2d, cosd, EARTH_RADIUS_KM, equatorialToHorizontal, localSiderealTime, normalizeDegrees, sind } from './astro';
+import type { GeocentricPosition, Observer } from './types';
+
+// Polar / equatorial radius of the Earth
+export const EARTH_FLATTENING_RATIO = 0.99664719;
+
+export interface TopocentricPosition {
+  // Degrees
+  rightAscension: number;
+  declination: number;
+  hourAngle: number;
+  // Geometric (airless) altitude and north-based azimuth of the body's centre
+  altitude: number;
+  azimuth: number;
+  // Observer-to-body distance in km
+  distance: number;
+}
+
+// Observer's position relative to the Earth's centre in Earth radii (Meeus ch. 11)
+const getObserverTerms = ({ latitude, elevation = 0 }: Observer) => {
+  const u = atan2d(EARTH_FLATTENING_RATIO * sind(latitude), cosd(latitude));
+  const heightRatio = elevation / (EARTH_RADIUS_KM * 1000);
+  return {
+    rhoSinPhi: EARTH_FLATTENING_RATIO * sind(u) + heightRatio * sind(latitude),
+    rhoCosPhi: cosd(u) + heightRatio * cosd(latitude)
+  };
+};
+
+// Shift a geocentric position to the observer's location, correcting for parallax
+export const getTopocentricPosition = (
+  date: Date,
+  observer: Observer,
+  body: GeocentricPosition
+): TopocentricPosition => {
+  const { rhoSinPhi, rhoCosPhi } = getObserverTerms(observer);
+  const hourAngle = normalizeDegrees(localSiderealTime(date, observer.longitude) - body.rightAscension);
+
+  // Body and observer as vectors in the hour-angle frame, in km
+  const x = body.distance * cosd(body.declination) * cosd(hourAngle) - EARTH_RADIUS_KM * rhoCosPhi;
+  const y = body.distance * cosd(body.declination) * sind(hourAngle);
+  const z = body.distance * sind(body.declination) - EARTH_RADIUS_KM * rhoSinPhi;
+
+  const topoHourAngle = normalizeDegrees(atan2d(y, x));
+  const declination = atan2d(z, Math.hypot(x, y));
+  const { altitude, azimuth } = equatorialToHorizontal(topoHourAngle, declination, observer.latitude);
+
+  return {
+    rightAscension: normalizeDegrees(body.rightAscension + hourAngle - topoHourAngle),
+    declination,
+    hourAngle: topoHourAngle,
+    altitude,
+    azimuth,
+    distance: Math.sqrt(x * x + y * y + z * z)
+  };
+};
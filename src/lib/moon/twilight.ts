@@ -0,0 +1,82 @@
+// Sunrise, sunset, solar noon and the three twilights for one solar day at the observer.
+import { wrapDegrees } from './astro';
+import { findCrossings } from './rise-set';
+import { getSunHorizonPosition, getSunPosition } from './sun';
+import { getTopocentricPosition } from './topocentric';
+import type { EphemerisOptions, HorizonState, Observer } from './types';
+
+export type TwilightKind = 'civil' | 'nautical' | 'astronomical';
+
+// Depression of the Sun's centre below the geometric horizon at which each twilight begins or ends, degrees
+export const TWILIGHT_DEPRESSION: Record<TwilightKind, number> = {
+  civil: 6,
+  nautical: 12,
+  astronomical: 18
+};
+
+export interface SunTimes {
+  // Upper transit of the Sun nearest the requested instant; the day runs from 12 hours before to 12 hours after
+  solarNoon: Date;
+  // Apparent altitude of the Sun's centre at solar noon, degrees
+  noonAltitude: number;
+  // Upper-limb sunrise and sunset; null when the Sun stays up or down all day
+  sunrise: Date | null;
+  sunset: Date | null;
+  // Morning start and evening end of each twilight; null when the Sun never gets that low (or high)
+  dawn: Record<TwilightKind, Date | null>;
+  dusk: Record<TwilightKind, Date | null>;
+  // Polar day (circumpolar) or polar night (never-rises) when there is no sunrise or sunset
+  horizonState: HorizonState;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const TWILIGHT_KINDS: TwilightKind[] = ['civil', 'nautical', 'astronomical'];
+
+const getSunHourAngle = (date: Date, observer: Observer): number =>
+  wrapDegrees(getTopocentricPosition(date, observer, getSunPosition(date)).hourAngle);
+
+// The Sun's upper transit nearest `date`
+const findSolarNoon = (date: Date, observer: Observer): Date => {
+  // The hour angle grows by about 15° an hour, which puts noon within a minute or so of this guess
+  const guess = date.getTime() - (getSunHourAngle(date, observer) / 15) * HOUR_MS;
+  const transit = findCrossings(
+    d => getSunHourAngle(d, observer),
+    new Date(guess - HOUR_MS),
+    new Date(guess + HOUR_MS)
+  ).find(({ rising }) => rising);
+  return transit ? transit.date : new Date(guess);
+};
+
+export const getSunTimes = (date: Date, observer: Observer, options: EphemerisOptions = {}): SunTimes => {
+  const solarNoon = findSolarNoon(date, observer);
+  const morning = new Date(solarNoon.getTime() - 12 * HOUR_MS);
+  const evening = new Date(solarNoon.getTime() + 12 * HOUR_MS);
+
+  // Last upward crossing of `fn` in the morning and first downward crossing in the evening
+  const findMorningEvening = (fn: (d: Date) => number): [Date | null, Date | null] => {
+    const rising = findCrossings(fn, morning, solarNoon).filter(({ rising }) => rising);
+    const setting = findCrossings(fn, solarNoon, evening).find(({ rising }) => !rising);
+    return [rising.length > 0 ? rising[rising.length - 1].date : null, setting ? setting.date : null];
+  };
+
+  const [sunrise, sunset] = findMorningEvening(d => {
+    const position = getSunHorizonPosition(d, observer, options);
+    return position.upperLimbAltitude - position.horizon;
+  });
+
+  const dawn = {} as Record<TwilightKind, Date | null>;
+  const dusk = {} as Record<TwilightKind, Date | null>;
+  for (const kind of TWILIGHT_KINDS) {
+    [dawn[kind], dusk[kind]] = findMorningEvening(
+      d => getSunHorizonPosition(d, observer, options).geometricAltitude + TWILIGHT_DEPRESSION[kind]
+    );
+  }
+
+  const noon = getSunHorizonPosition(solarNoon, observer, options);
+  let horizonState: HorizonState = 'rises-and-sets';
+  if (!sunrise && !sunset) {
+    horizonState = noon.upperLimbAltitude > noon.horizon ? 'circumpolar' : 'never-rises';
+  }
+
+  return { solarNoon, noonAltitude: noon.altitude, sunrise, sunset, dawn, dusk, horizonState };
+};
@@ -0,0 +1,98 @@
+import type { BestViewing, Culmination } from './ephemeris';
+import type { VisibilityVerdict } from './visibility';
+
+export interface Observer {
+  latitude: number;
+  longitude: number;
+  // Metres above sea level
+  elevation?: number;
+}
+
+export interface Atmosphere {
+  // Degrees Celsius
+  temperature: number;
+  // Hectopascals
+  pressure: number;
+}
+
+export interface EphemerisOptions {
+  // Atmosphere used for refraction; null gives airless, geometric altitudes
+  atmosphere?: Atmosphere | null;
+}
+
+export interface GeocentricPosition {
+  // Apparent ecliptic coordinates of date, degrees
+  longitude: number;
+  latitude: number;
+  // Centre-to-centre distance in km
+  distance: number;
+  // Apparent equatorial coordinates of date, degrees
+  rightAscension: number;
+  declination: number;
+}
+
+// Circumpolar: above the horizon for a whole (lunar or solar) day; never-rises: below it for a whole day
+export type HorizonState = 'rises-and-sets' | 'circumpolar' | 'never-rises';
+
+export type PhaseName =
+  | 'New Moon'
+  | 'Waxing Crescent'
+  | 'First Quarter'
+  | 'Waxing Gibbous'
+  | 'Full Moon'
+  | 'Waning Gibbous'
+  | 'Last Quarter'
+  | 'Waning Crescent';
+
+export interface MoonData {
+  isVisible: boolean;
+  altitude: number;
+  azimuth: number;
+  phase: number;
+  illumination: number;
+  rise: Date | null;
+  set: Date | null;
+}
+
+export interface MoonReport extends MoonData {
+  // Instant the report was computed for
+  date: Date;
+  phaseName: PhaseName;
+  // Days since new moon
+  age: number;
+  // Observer-to-Moon distance in km
+  distance: number;
+  // Earth-centre to Moon-centre distance in km, the figure usually quoted
+  geocentricDistance: number;
+  // Apparent angular radius of the disc, degrees
+  semiDiameter: number;
+  // Degrees; angle of the Moon's bright limb midpoint, measured eastward from north
+  brightLimbAngle: number;
+  // Degrees; angle between the zenith and celestial north at the Moon
+  parallacticAngle: number;
+  // Geocentric Moon–Sun separation, degrees
+  elongation: number;
+  // Apparent altitude and azimuth of the Sun, degrees
+  sunAltitude: number;
+  sunAzimuth: number;
+  // Practical naked-eye verdict, accounting for the Sun and sky
+  visibility: VisibilityVerdict;
+  horizonState: HorizonState;
+  // Next meridian passages: highest (upper) and lowest (lower)
+  upperCulmination: Culmination | null;
+  lowerCulmination: Culmination | null;
+  // Highest point of the Moon in tonight's dark sky
+  bestViewing: BestViewing | null;
+}
+
+export type MajorPhase = 'New Moon' | 'First Quarter' | 'Full Moon' | 'Last Quarter';
+
+export interface PhaseEvent {
+  phase: MajorPhase;
+  date: Date;
+}
+
+export interface TimeRemaining {
+  hours: number;
+  minutes: number;
+}
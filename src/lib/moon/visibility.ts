@@ -0,0 +1,143 @@
+import { getAzimuthDirection } from './format';
+
+export type SkyCondition = 'day' | 'civil-twilight' | 'nautical-twilight' | 'astronomical-twilight' | 'night';
+
+export type VisibilityGrade =
+  | 'easily-visible'
+  | 'visible-in-twilight'
+  | 'visible-in-daylight'
+  | 'low-on-horizon'
+  | 'too-close-to-sun'
+  | 'too-thin'
+  | 'below-horizon';
+
+export interface VisibilityInputs {
+  // Apparent altitudes, degrees
+  moonAltitude: number;
+  moonUpperLimbAltitude: number;
+  // Apparent altitude of the visible horizon, degrees
+  horizon: number;
+  moonAzimuth: number;
+  sunAltitude: number;
+  // Moon–Sun separation, degrees
+  elongation: number;
+  // Illuminated fraction, 0–1
+  illumination: number;
+}
+
+export interface VisibilityVerdict {
+  grade: VisibilityGrade;
+  // Whether a person looking in the right place can expect to see the Moon
+  visible: boolean;
+  sky: SkyCondition;
+  label: string;
+  reason: string;
+}
+
+// Below this elongation no crescent forms at all (Danjon limit)
+const DANJON_LIMIT = 7;
+// Closer than this to the Sun the Moon is lost in daytime or bright-twilight glare
+const MIN_DAYTIME_ELONGATION = 15;
+// A daytime Moon needs a reasonable amount of lit surface to stand out against blue sky
+const MIN_DAYTIME_ILLUMINATION = 0.1;
+// In bright twilight a very thin crescent is swamped by the sky
+const MIN_TWILIGHT_ILLUMINATION = 0.01;
+// Below this the Moon is dimmed by extinction and easily hidden by terrain
+const LOW_ALTITUDE = 5;
+
+const LABELS: Record<VisibilityGrade, string> = {
+  'easily-visible': 'Easily visible',
+  'visible-in-twilight': 'Visible in twilight',
+  'visible-in-daylight': 'Visible in daylight',
+  'low-on-horizon': 'Low on the horizon',
+  'too-close-to-sun': 'Too close to the Sun',
+  'too-thin': 'Too thin',
+  'below-horizon': 'Below the horizon'
+};
+
+const SKY_DESCRIPTIONS: Record<SkyCondition, string> = {
+  day: 'a daylit sky',
+  'civil-twilight': 'a bright twilight sky',
+  'nautical-twilight': 'a twilight sky',
+  'astronomical-twilight': 'a nearly dark sky',
+  night: 'a dark sky'
+};
+
+export const getSkyCondition = (sunAltitude: number): SkyCondition => {
+  if (sunAltitude > -0.833) return 'day';
+  if (sunAltitude > -6) return 'civil-twilight';
+  if (sunAltitude > -12) return 'nautical-twilight';
+  if (sunAltitude > -18) return 'astronomical-twilight';
+  return 'night';
+};
+
+const VISIBLE_GRADES: VisibilityGrade[] = ['easily-visible', 'visible-in-twilight', 'visible-in-daylight', 'low-on-horizon'];
+
+const verdict = (grade: VisibilityGrade, sky: SkyCondition, reason: string): VisibilityVerdict => ({
+  grade,
+  visible: VISIBLE_GRADES.includes(grade),
+  sky,
+  label: LABELS[grade],
+  reason
+});
+
+// Grade how practical it is to see the Moon with the naked eye right now
+export const classifyVisibility = (inputs: VisibilityInputs): VisibilityVerdict => {
+  const { moonAltitude, moonUpperLimbAltitude, horizon, moonAzimuth, sunAltitude, elongation, illumination } = inputs;
+  const sky = getSkyCondition(sunAltitude);
+  const altitude = Math.round(moonAltitude);
+  const percent = Math.round(illumination * 100);
+  const direction = getAzimuthDirection(moonAzimuth);
+
+  if (moonUpperLimbAltitude <= horizon) {
+    return verdict('below-horizon', sky, `The Moon is ${Math.abs(altitude)}° below the horizon.`);
+  }
+
+  if (elongation < DANJON_LIMIT) {
+    return verdict(
+      'too-close-to-sun',
+      sky,
+      `The Moon is only ${elongation.toFixed(1)}° from the Sun, too close for any crescent to show.`
+    );
+  }
+
+  if (sky === 'day' || sky === 'civil-twilight') {
+    if (elongation < MIN_DAYTIME_ELONGATION) {
+      return verdict(
+        'too-close-to-sun',
+        sky,
+        `The Moon is ${Math.round(elongation)}° from the Sun and lost in its glare.`
+      );
+    }
+    const minIllumination = sky === 'day' ? MIN_DAYTIME_ILLUMINATION : MIN_TWILIGHT_ILLUMINATION;
+    if (illumination < minIllumination) {
+      return verdict(
+        'too-thin',
+        sky,
+        `Only ${percent}% of the Moon is lit, too faint to pick out against ${SKY_DESCRIPTIONS[sky]}.`
+      );
+    }
+  }
+
+  if (moonAltitude < LOW_ALTITUDE) {
+    return verdict(
+      'low-on-horizon',
+      sky,
+      `The Moon is only ${Math.max(altitude, 0)}° up in the ${direction}; you'll need a clear, flat horizon.`
+    );
+  }
+
+  if (sky === 'day') {
+    return verdict(
+      'visible-in-daylight',
+      sky,
+      `The Sun is up, but the ${percent}% lit Moon is ${Math.round(elongation)}° away from it. Look ${altitude}° up in the ${direction}.`
+    );
+  }
+
+  if (sky === 'civil-twilight' || sky === 'nautical-twilight') {
+    return verdict('visible-in-twilight', sky, `The Moon is ${altitude}° up in the ${direction} in ${SKY_DESCRIPTIONS[sky]}.`);
+  }
+
+  return verdict('easily-visible', sky, `The Moon is ${altitude}° up in the ${direction} in ${SKY_DESCRIPTIONS[sky]}.`);
+};
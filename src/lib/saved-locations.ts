@@ -0,0 +1,102 @@
+// Favourite locations and the last location used, kept in localStorage so they survive reloads.
+
+export interface SavedLocation {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  // Metres above sea level
+  elevation?: number;
+  // Free text, e.g. "trees to the east, clear south"
+  horizonNote?: string;
+}
+
+export interface LastLocation {
+  latitude: number;
+  longitude: number;
+  elevation?: number;
+  city: string;
+  // Horizon notes, when it was a favourite
+  note?: string;
+}
+
+// A place added on the comparison page; the id keeps its row apart from others added there
+export interface ComparedLocation extends LastLocation {
+  id: string;
+}
+
+const FAVOURITES_KEY = 'caniseethemoon:favourites';
+const LAST_LOCATION_KEY = 'caniseethemoon:last-location';
+const COMPARED_KEY = 'caniseethemoon:compared';
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isValidPoint = (value: { latitude?: unknown; longitude?: unknown }): boolean =>
+  isFiniteNumber(value.latitude) &&
+  isFiniteNumber(value.longitude) &&
+  Math.abs(value.latitude) <= 90 &&
+  Math.abs(value.longitude) <= 180;
+
+// Storage can be full, disabled or hold something an older version wrote; none of that should break the page
+const readJson = (key: string): unknown => {
+  try {
+    const text = localStorage.getItem(key);
+    return text ? JSON.parse(text) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    if (value === null) localStorage.removeItem(key);
+    else localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to save ${key}:`, error);
+  }
+};
+
+export const loadFavourites = (): SavedLocation[] => {
+  const stored = readJson(FAVOURITES_KEY);
+  if (!Array.isArray(stored)) return [];
+  return stored.filter(
+    (item): item is SavedLocation =>
+      item && typeof item.id === 'string' && typeof item.name === 'string' && isValidPoint(item)
+  );
+};
+
+export const saveFavourites = (favourites: SavedLocation[]) => writeJson(FAVOURITES_KEY, favourites);
+
+// null means the device's own position
+export const loadLastLocation = (): LastLocation | null => {
+  const stored = readJson(LAST_LOCATION_KEY) as LastLocation | null;
+  return stored && typeof stored.city === 'string' && isValidPoint(stored) ? stored : null;
+};
+
+export const saveLastLocation = (location: LastLocation | null) => writeJson(LAST_LOCATION_KEY, location);
+
+// Extra places picked on the comparison page, besides the favourites; entries saved before they had ids get one
+export const loadComparedLocations = (): ComparedLocation[] => {
+  const stored = readJson(COMPARED_KEY);
+  if (!Array.isArray(stored)) return [];
+  return stored
+    .filter(
+      (item): item is LastLocation & { id?: unknown } => item && typeof item.city === 'string' && isValidPoint(item)
+    )
+    .map(item => ({ ...item, id: typeof item.id === 'string' ? item.id : createFavouriteId() }));
+};
+
+export const saveComparedLocations = (locations: ComparedLocation[]) => writeJson(COMPARED_KEY, locations);
+
+export const favouriteToLocation = (favourite: SavedLocation): LastLocation => ({
+  latitude: favourite.latitude,
+  longitude: favourite.longitude,
+  elevation: favourite.elevation,
+  city: favourite.name,
+  note: favourite.horizonNote
+});
+
+export const createFavouriteId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
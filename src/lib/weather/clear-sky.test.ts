@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { getClearSkyProbability, getCloudAwareAnswer, getCloudCoverAt } from './clear-sky';
+import type { CloudCover } from './types';
+
+const hour = (time: string, total: number, low: number, mid: number, high: number): CloudCover => ({
+  time: new Date(time),
+  total,
+  low,
+  mid,
+  high
+});
+
+const CLEAR = hour('2025-03-14T06:00:00Z', 0, 0, 0, 0);
+const OVERCAST = hour('2025-03-14T07:00:00Z', 100, 100, 80, 40);
+const CIRRUS = hour('2025-03-14T08:00:00Z', 70, 0, 0, 70);
+
+describe('getCloudCoverAt', () => {
+  const forecast = [CLEAR, OVERCAST, CIRRUS];
+
+  it('finds the hour an instant falls in', () => {
+    expect(getCloudCoverAt(forecast, new Date('2025-03-14T06:00:00Z'))).toBe(CLEAR);
+    expect(getCloudCoverAt(forecast, new Date('2025-03-14T07:59:59Z'))).toBe(OVERCAST);
+    expect(getCloudCoverAt(forecast, new Date('2025-03-14T08:30:00Z'))).toBe(CIRRUS);
+  });
+
+  it('gives null outside the forecast', () => {
+    expect(getCloudCoverAt(forecast, new Date('2025-03-14T05:59:59Z'))).toBeNull();
+    expect(getCloudCoverAt(forecast, new Date('2025-03-14T09:00:00Z'))).toBeNull();
+    expect(getCloudCoverAt([], new Date('2025-03-14T06:00:00Z'))).toBeNull();
+  });
+});
+
+describe('getClearSkyProbability', () => {
+  it('is certain under a clear sky and nil under overcast', () => {
+    expect(getClearSkyProbability(CLEAR, 45)).toBe(1);
+    expect(getClearSkyProbability(OVERCAST, 90)).toBe(0);
+  });
+
+  it('counts thin high cloud for half', () => {
+    expect(getClearSkyProbability(CIRRUS, 90)).toBeCloseTo(0.65, 6);
+  });
+
+  it('never reads clearer than the combined cover allows', () => {
+    expect(getClearSkyProbability(hour('2025-03-14T06:00:00Z', 90, 20, 20, 0), 90)).toBeCloseTo(0.64, 6);
+    expect(getClearSkyProbability(hour('2025-03-14T06:00:00Z', 90, 90, 0, 0), 90)).toBeCloseTo(0.1, 6);
+  });
+
+  it('drops towards the horizon, levelling off below 10°', () => {
+    const high = getClearSkyProbability(CIRRUS, 90);
+    const mid = getClearSkyProbability(CIRRUS, 30);
+    const low = getClearSkyProbability(CIRRUS, 10);
+    expect(mid).toBeCloseTo(0.65 ** Math.SQRT2, 6);
+    expect(low).toBeLessThan(mid);
+    expect(mid).toBeLessThan(high);
+    expect(getClearSkyProbability(CIRRUS, 2)).toBeCloseTo(low, 10);
+  });
+});
+
+describe('getCloudAwareAnswer', () => {
+  it('is no whenever the Moon is not up', () => {
+    expect(getCloudAwareAnswer(false, 1)).toBe('no');
+    expect(getCloudAwareAnswer(false, null)).toBe('no');
+  });
+
+  it('leaves the answer to astronomy without a forecast', () => {
+    expect(getCloudAwareAnswer(true, null)).toBe('yes');
+  });
+
+  it('grades the chance of a clear view', () => {
+    expect(getCloudAwareAnswer(true, 0.6)).toBe('yes');
+    expect(getCloudAwareAnswer(true, 0.59)).toBe('maybe');
+    expect(getCloudAwareAnswer(true, 0.2)).toBe('maybe');
+    expect(getCloudAwareAnswer(true, 0.19)).toBe('no');
+  });
+});
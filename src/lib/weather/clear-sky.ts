@@ -0,0 +1,33 @@
+import { sind } from '@/lib/moon';
+import type { CloudCover } from './types';
+
+export type CloudAwareAnswer = 'yes' | 'maybe' | 'no';
+
+// High cloud is mostly thin cirrus that the Moon shines through, so it counts for half
+const HIGH_CLOUD_WEIGHT = 0.5;
+// Below this altitude the slant path through the cloud field is taken as at this altitude
+const MIN_SLANT_ALTITUDE = 10;
+// Clear-view chances at or above which the answer is a plain yes, or at least a maybe
+const LIKELY_CLEAR = 0.6;
+const POSSIBLY_CLEAR = 0.2;
+const HOUR_MS = 60 * 60 * 1000;
+
+// The hour of forecast that `date` falls in, if the forecast covers it
+export const getCloudCoverAt = (forecast: CloudCover[], date: Date): CloudCover | null =>
+  forecast.find(({ time }) => time.getTime() <= date.getTime() && date.getTime() < time.getTime() + HOUR_MS) ?? null;
+
+// Chance of an unobstructed line of sight to a body at `altitude` degrees during one forecast hour
+export const getClearSkyProbability = (cloud: CloudCover, altitude: number): number => {
+  // Layers overlapping at random, never less clear than the forecast's own combined cover
+  const layered = (1 - cloud.low / 100) * (1 - cloud.mid / 100) * (1 - (HIGH_CLOUD_WEIGHT * cloud.high) / 100);
+  const overhead = Math.max(1 - cloud.total / 100, layered);
+  // Towards the horizon the line of sight crosses more of the cloud field
+  return overhead ** Math.sqrt(1 / sind(Math.max(altitude, MIN_SLANT_ALTITUDE)));
+};
+
+// Whether the Moon can be seen once clouds are accounted for; without a forecast, astronomy alone decides
+export const getCloudAwareAnswer = (visible: boolean, clearProbability: number | null): CloudAwareAnswer => {
+  if (!visible) return 'no';
+  if (clearProbability === null || clearProbability >= LIKELY_CLEAR) return 'yes';
+  return clearProbability >= POSSIBLY_CLEAR ? 'maybe' : 'no';
+};
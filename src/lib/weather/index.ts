@@ -0,0 +1,18 @@
+import { createOpenMeteoProvider, OPEN_METEO_URL } from './open-meteo';
+import type { WeatherProvider } from './types';
+
+export * from './types';
+export * from './open-meteo';
+export * from './clear-sky';
+
+// Providers selectable with VITE_WEATHER_PROVIDER; 'none' turns cloud cover off.
+// VITE_WEATHER_URL points the Open-Meteo adapter elsewhere, e.g. at `npm run mock:weather`.
+const PROVIDERS: Record<string, () => WeatherProvider | null> = {
+  'open-meteo': () => createOpenMeteoProvider(import.meta.env.VITE_WEATHER_URL || OPEN_METEO_URL),
+  none: () => null
+};
+
+export const getWeatherProvider = (): WeatherProvider | null => {
+  const create = PROVIDERS[import.meta.env.VITE_WEATHER_PROVIDER || 'open-meteo'] ?? PROVIDERS['open-meteo'];
+  return create();
+};
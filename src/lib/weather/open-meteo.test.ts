@@ -0,0 +1,97 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createMockWeatherServer } from '../../../scripts/mock-weather-server.js';
+import { createOpenMeteoProvider } from './open-meteo';
+
+const OBSERVER = { latitude: 32.7767, longitude: -96.797 };
+const START = new Date('2025-03-14T06:20:00Z');
+const END = new Date('2025-03-14T09:40:00Z');
+
+const listen = (server: Server): Promise<string> =>
+  new Promise(resolve =>
+    server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`))
+  );
+
+describe('Open-Meteo adapter against the mock server', () => {
+  const servers: Server[] = [];
+  const urls: Record<string, string> = {};
+
+  beforeAll(async () => {
+    for (const sky of ['overcast', 'cirrus', 'unknown']) {
+      const server = createMockWeatherServer(sky);
+      servers.push(server);
+      urls[sky] = await listen(server);
+    }
+  });
+
+  afterAll(() => Promise.all(servers.map(server => new Promise(resolve => server.close(resolve)))));
+
+  it('asks for whole hours and reads every one back', async () => {
+    const hours = await createOpenMeteoProvider(urls.overcast).getHourlyCloudCover(OBSERVER, START, END);
+    expect(hours.map(({ time }) => time.toISOString())).toEqual([
+      '2025-03-14T06:00:00.000Z',
+      '2025-03-14T07:00:00.000Z',
+      '2025-03-14T08:00:00.000Z',
+      '2025-03-14T09:00:00.000Z'
+    ]);
+    expect(hours[0]).toMatchObject({ total: 100, low: 100, mid: 80, high: 40 });
+  });
+
+  it('keeps the layers apart', async () => {
+    const [first] = await createOpenMeteoProvider(urls.cirrus).getHourlyCloudCover(OBSERVER, START, END);
+    expect(first).toMatchObject({ total: 70, low: 0, mid: 0, high: 70 });
+  });
+
+  it("passes on the service's reason for a bad request", async () => {
+    await expect(createOpenMeteoProvider(urls.unknown).getHourlyCloudCover(OBSERVER, START, END)).rejects.toThrow(
+      'Weather error: Bad request for /v1/forecast (sky unknown)'
+    );
+  });
+});
+
+describe('Open-Meteo response parsing', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const respond = (body: string, init: ResponseInit) => vi.stubGlobal('fetch', vi.fn(async () => new Response(body, init)));
+
+  // Trimmed from a real forecast, with the gaps Open-Meteo leaves beyond the end of a model run
+  it('drops hours with missing layers', async () => {
+    respond(
+      JSON.stringify({
+        latitude: 32.78,
+        longitude: -96.8,
+        timezone: 'GMT',
+        hourly: {
+          time: [1741932000, 1741935600, 1741939200],
+          cloud_cover: [12, 100, null],
+          cloud_cover_low: [0, 96, null],
+          cloud_cover_mid: [0, 61, 5],
+          cloud_cover_high: [40, 0, 0]
+        }
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+    const hours = await createOpenMeteoProvider().getHourlyCloudCover(OBSERVER, START, END);
+    expect(hours).toEqual([
+      { time: new Date('2025-03-14T06:00:00Z'), total: 12, low: 0, mid: 0, high: 40 },
+      { time: new Date('2025-03-14T07:00:00Z'), total: 100, low: 96, mid: 61, high: 0 }
+    ]);
+  });
+
+  it('reports an HTML error page by its status rather than a parse error', async () => {
+    respond('<html><body>Bad Gateway</body></html>', { status: 502, statusText: 'Bad Gateway' });
+    await expect(createOpenMeteoProvider().getHourlyCloudCover(OBSERVER, START, END)).rejects.toThrow(
+      'Weather error: Bad Gateway'
+    );
+  });
+
+  it('rejects a successful response without a forecast', async () => {
+    respond('{}', { status: 200 });
+    await expect(createOpenMeteoProvider().getHourlyCloudCover(OBSERVER, START, END)).rejects.toThrow(
+      'Weather error: no hourly forecast in the response'
+    );
+  });
+});
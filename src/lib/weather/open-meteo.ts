@@ -0,0 +1,55 @@
+// Hourly cloud cover from the free Open-Meteo forecast API (https://open-meteo.com), no key required.
+import type { Observer } from '@/lib/moon';
+import type { CloudCover, WeatherProvider } from './types';
+
+export const OPEN_METEO_URL = 'https://api.open-meteo.com';
+
+interface OpenMeteoResponse {
+  hourly?: {
+    time: number[];
+    cloud_cover: (number | null)[];
+    cloud_cover_low: (number | null)[];
+    cloud_cover_mid: (number | null)[];
+    cloud_cover_high: (number | null)[];
+  };
+  reason?: string;
+}
+
+// Open-Meteo takes whole hours in the form 2024-04-08T18:00
+const toHour = (date: Date): string => `${date.toISOString().slice(0, 13)}:00`;
+
+export const createOpenMeteoProvider = (baseUrl = OPEN_METEO_URL): WeatherProvider => ({
+  name: 'Open-Meteo',
+  getHourlyCloudCover: async (observer: Observer, start: Date, end: Date, signal?: AbortSignal) => {
+    const params = new URLSearchParams({
+      latitude: observer.latitude.toFixed(4),
+      longitude: observer.longitude.toFixed(4),
+      hourly: 'cloud_cover,cloud_cover_low,cloud_cover_mid,cloud_cover_high',
+      timezone: 'GMT',
+      timeformat: 'unixtime',
+      start_hour: toHour(start),
+      end_hour: toHour(end)
+    });
+    const response = await fetch(`${baseUrl}/v1/forecast?${params}`, { signal });
+    if (!response.ok) {
+      // Open-Meteo explains itself in JSON; a proxy or gateway in the way may answer with an HTML page
+      const reason = await response.json().then((body: OpenMeteoResponse) => body.reason, () => undefined);
+      throw new Error(`Weather error: ${reason ?? (response.statusText || `HTTP ${response.status}`)}`);
+    }
+    const data: OpenMeteoResponse = await response.json();
+    if (!data.hourly) {
+      throw new Error('Weather error: no hourly forecast in the response');
+    }
+
+    const { time, cloud_cover, cloud_cover_low, cloud_cover_mid, cloud_cover_high } = data.hourly;
+    return time
+      .map((seconds, i) => ({
+        time: new Date(seconds * 1000),
+        total: cloud_cover[i],
+        low: cloud_cover_low[i],
+        mid: cloud_cover_mid[i],
+        high: cloud_cover_high[i]
+      }))
+      .filter((hour): hour is CloudCover => [hour.total, hour.low, hour.mid, hour.high].every(value => value !== null));
+  }
+});
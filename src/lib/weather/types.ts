@@ -0,0 +1,18 @@
+import type { Observer } from '@/lib/moon';
+
+export interface CloudCover {
+  // Start of the hour the figures apply to
+  time: Date;
+  // Fraction of the sky covered, percent: all layers together, then low (< 2 km), mid (2–6 km) and high (> 6 km)
+  total: number;
+  low: number;
+  mid: number;
+  high: number;
+}
+
+export interface WeatherProvider {
+  // Shown as the data credit
+  name: string;
+  // Hourly cloud cover covering `start` to `end`; rejects when the service cannot be reached or answers badly
+  getHourlyCloudCover: (observer: Observer, start: Date, end: Date, signal?: AbortSignal) => Promise<CloudCover[]>;
+}
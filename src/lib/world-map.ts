@@ -0,0 +1,141 @@
+import { feature } from 'topojson-client';
+import type { Topology } from 'topojson-specification';
+import type { Geometry, Position } from 'geojson';
+import landUrl from 'world-atlas/land-110m.json?url';
+import type { SphericalCap } from '@/lib/moon';
+
+export type Projection = (longitude: number, latitude: number) => [number, number];
+
+// Plate carrée: longitude and latitude map linearly onto x and y
+export const equirectangular = (width: number, height: number): Projection => {
+  return (longitude, latitude) => [((longitude + 180) / 360) * width, ((90 - latitude) / 180) * height];
+};
+
+let landPromise: Promise<Geometry> | null = null;
+
+// Natural Earth 1:110m land outlines, fetched on first use and cached for the session
+export const loadLand = (): Promise<Geometry> => {
+  if (!landPromise) {
+    landPromise = fetch(landUrl)
+      .then(response => response.json())
+      .then((topology: Topology) => {
+        const land = feature(topology, topology.objects.land);
+        return land.type === 'FeatureCollection' ? land.features[0].geometry : land.geometry;
+      })
+      .catch(error => {
+        landPromise = null;
+        throw error;
+      });
+  }
+  return landPromise;
+};
+
+// SVG path data for a ring of [longitude, latitude] points, split where it crosses the antimeridian
+export const lineToPath = (points: Position[], project: Projection, closed = false): string => {
+  let d = '';
+  let previous: Position | null = null;
+  for (const point of points) {
+    const [x, y] = project(point[0], point[1]);
+    const jump = previous && Math.abs(point[0] - previous[0]) > 180;
+    d += `${!previous || jump ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    previous = point;
+  }
+  return closed ? `${d}Z` : d;
+};
+
+export const geometryToPath = (geometry: Geometry, project: Projection): string => {
+  switch (geometry.type) {
+    case 'Polygon':
+      return geometry.coordinates.map(ring => lineToPath(ring, project, true)).join('');
+    case 'MultiPolygon':
+      return geometry.coordinates.flat().map(ring => lineToPath(ring, project, true)).join('');
+    case 'LineString':
+      return lineToPath(geometry.coordinates, project);
+    case 'MultiLineString':
+      return geometry.coordinates.map(line => lineToPath(line, project)).join('');
+    case 'GeometryCollection':
+      return geometry.geometries.map(g => geometryToPath(g, project)).join('');
+    default:
+      return '';
+  }
+};
+
+const CAP_STEPS = 720;
+const RAD = Math.PI / 180;
+
+// Whether a cap reaches over a pole, which is then the one on its centre's side
+const capHoldsPole = ({ centre, radius }: SphericalCap): boolean => 90 - Math.abs(centre.latitude) < radius;
+
+// Boundary of a cap as [longitude, latitude] points, clockwise from due north of the centre. Longitudes are left
+// unwrapped so the ring is continuous: one around a pole comes back 360° east or west of where it started.
+export const capToRing = (cap: SphericalCap, steps = CAP_STEPS): Position[] => {
+  const { centre, radius } = cap;
+  const phi0 = centre.latitude * RAD;
+  const r = radius * RAD;
+  // Around a pole the longitude only ever moves one way: east round the south pole, west round the north
+  const winding = capHoldsPole(cap) ? (centre.latitude < 0 ? 1 : -1) : 0;
+  const ring: Position[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const bearing = (i / steps) * 2 * Math.PI;
+    const phi = Math.asin(Math.sin(phi0) * Math.cos(r) + Math.cos(phi0) * Math.sin(r) * Math.cos(bearing));
+    let longitude =
+      centre.longitude +
+      Math.atan2(Math.sin(bearing) * Math.sin(r) * Math.cos(phi0), Math.cos(r) - Math.sin(phi0) * Math.sin(phi)) / RAD;
+    if (winding && i > 0) {
+      const previous = ring[i - 1][0];
+      const step = (((winding * (longitude - previous)) % 360) + 360) % 360;
+      longitude = previous + winding * (i === steps ? step || 360 : step);
+    }
+    ring.push([longitude, phi / RAD]);
+  }
+  return ring;
+};
+
+// Sutherland–Hodgman against one vertical edge of the map
+const clipAtLongitude = (ring: Position[], edge: number, keepEast: boolean): Position[] => {
+  const inside = (p: Position) => (keepEast ? p[0] >= edge : p[0] <= edge);
+  const clipped: Position[] = [];
+  ring.forEach((current, i) => {
+    const previous = ring[(i + ring.length - 1) % ring.length];
+    if (inside(current) !== inside(previous)) {
+      const t = (edge - previous[0]) / (current[0] - previous[0]);
+      clipped.push([edge, previous[1] + t * (current[1] - previous[1])]);
+    }
+    if (inside(current)) clipped.push(current);
+  });
+  return clipped;
+};
+
+// Twice the signed area in the plane; positive for counter-clockwise rings
+const ringArea = (ring: Position[]): number =>
+  ring.reduce((sum, [x0, y0], i) => {
+    const [x1, y1] = ring[(i + 1) % ring.length];
+    return sum + x0 * y1 - x1 * y0;
+  }, 0);
+
+// A cap as polygons within ±180° longitude: split at the antimeridian, closed over the pole it contains, and
+// wound counter-clockwise as GeoJSON expects
+export const capToPolygons = (cap: SphericalCap): Position[][][] => {
+  let ring = capToRing(cap);
+  if (capHoldsPole(cap)) {
+    // Close the ring, which spans a full 360° of longitude, along the map edge at the pole
+    const pole = cap.centre.latitude >= 0 ? 90 : -90;
+    ring = [...ring, [ring[ring.length - 1][0], pole], [ring[0][0], pole]];
+  } else {
+    ring = ring.slice(0, -1);
+  }
+
+  return [-360, 0, 360]
+    .map(shift => {
+      const shifted = ring.map(([lon, lat]) => [lon + shift, lat]);
+      const clipped = clipAtLongitude(clipAtLongitude(shifted, -180, true), 180, false);
+      if (clipped.length < 3) return null;
+      const wound = ringArea(clipped) < 0 ? clipped.reverse() : clipped;
+      return [[...wound, wound[0]]];
+    })
+    .filter((polygon): polygon is Position[][] => polygon !== null);
+};
+
+// The cap's edge as lines within ±180° longitude, for drawing without the seams polygons get at the map edge
+export const capToOutline = (cap: SphericalCap): Position[] =>
+  capToRing(cap).map(([lon, lat]) => [((((lon + 180) % 360) + 360) % 360) - 180, lat]);
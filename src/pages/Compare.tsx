@@ -0,0 +1,7 @@
+import CompareDashboard from '@/components/CompareDashboard';
+
+const Compare = () => {
+  return <CompareDashboard />;
+};
+
+export default Compare;